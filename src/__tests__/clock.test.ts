@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { ClockSync } from '../clock';
+
+describe('ClockSync', () => {
+  it('starts with a zero offset and no rtt', () => {
+    const clock = new ClockSync();
+    expect(clock.offset).toBe(0);
+    expect(clock.rtt).toBeNull();
+  });
+
+  it('corrects the handshake timeDiff by half the round trip', () => {
+    const clock = new ClockSync();
+    clock.addHandshake(5100, 200);
+    expect(clock.offset).toBe(5000);
+    expect(clock.rtt).toBe(200);
+  });
+
+  it('replaces the estimate on every handshake', () => {
+    const clock = new ClockSync();
+    clock.addHandshake(5010, 20);
+    clock.addHandshake(9300, 600); // Reconnected, even over a slower route
+    expect(clock.offset).toBe(9000);
+    expect(clock.rtt).toBe(600);
+  });
+});
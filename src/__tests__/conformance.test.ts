@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { WebSocket as NodeWebSocket, WebSocketServer } from 'ws';
+import { runAdapterConformance, IWebSocketAdapter } from '../index';
+
+let server: WebSocketServer;
+let echoUrl: string;
+
+beforeAll(async () => {
+  server = new WebSocketServer({ port: 0 });
+  server.on('connection', socket => {
+    socket.on('message', (data, isBinary) => socket.send(data, { binary: isBinary }));
+  });
+  await new Promise<void>(resolve => server.once('listening', () => resolve()));
+  echoUrl = `ws://127.0.0.1:${(server.address() as { port: number }).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+describe('runAdapterConformance', () => {
+  it('passes for the ws package', async () => {
+    const report = await runAdapterConformance(
+      url => new NodeWebSocket(url) as unknown as IWebSocketAdapter,
+      { echoUrl, unreachableUrl: 'ws://127.0.0.1:1', timeoutMs: 2000 }
+    );
+
+    expect(report.checks.filter(check => !check.passed)).toEqual([]);
+    expect(report.passed).toBe(true);
+    expect(report.checks).toHaveLength(6);
+  });
+
+  it('reports adapters that decode binary frames to text', async () => {
+    const factory = (url: string): IWebSocketAdapter => {
+      const socket = new NodeWebSocket(url);
+      const adapter: IWebSocketAdapter = {
+        get readyState() { return socket.readyState; },
+        onopen: null,
+        onmessage: null,
+        onerror: null,
+        onclose: null,
+        send: data => socket.send(data),
+        close: (code, reason) => socket.close(code, reason),
+      };
+      socket.onopen = event => adapter.onopen?.(event);
+      socket.onmessage = event => adapter.onmessage?.({ data: event.data.toString() });
+      socket.onerror = event => adapter.onerror?.(event);
+      socket.onclose = event => adapter.onclose?.(event);
+      return adapter;
+    };
+
+    const report = await runAdapterConformance(factory, { echoUrl, timeoutMs: 2000 });
+
+    expect(report.passed).toBe(false);
+    expect(report.checks.filter(check => !check.passed).map(check => check.name))
+      .toEqual(['round-trips binary frames as ArrayBuffer']);
+  });
+
+  it('reports a missing onopen as a timeout', async () => {
+    const silent: IWebSocketAdapter = {
+      readyState: 0, onopen: null, onmessage: null, onerror: null, onclose: null,
+      send: () => {}, close: vi.fn(),
+    };
+
+    const report = await runAdapterConformance(() => silent, { echoUrl, timeoutMs: 50 });
+
+    expect(report.checks[1]).toEqual(expect.objectContaining({
+      name: 'fires onopen once and reports OPEN',
+      passed: false,
+      error: 'Timed out after 50ms waiting for onopen',
+    }));
+    expect(silent.close).toHaveBeenCalled();
+  });
+
+  it('reports a failed connection that closes without onerror', async () => {
+    const factory = (url: string): IWebSocketAdapter => {
+      const socket = new NodeWebSocket(url);
+      const adapter = socket as unknown as IWebSocketAdapter;
+      socket.on('error', () => {}); // Swallowed instead of forwarded to onerror
+      return new Proxy(adapter, {
+        set: (target, key, value) => key === 'onerror' || Reflect.set(target, key, value),
+      });
+    };
+
+    const report = await runAdapterConformance(factory, { echoUrl, unreachableUrl: 'ws://127.0.0.1:1', timeoutMs: 2000 });
+
+    expect(report.checks.filter(check => !check.passed)).toEqual([{
+      name: 'a failed connection fires onerror, then onclose without onopen, and reports CLOSED',
+      passed: false,
+      error: 'onerror did not fire for an unreachable URL',
+    }]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ConversationManager } from '../conversation';
+import type { StoredMessage } from '../store';
+
+const chat = { channelId: 'chat', channelType: 2 };
+const friend = { channelId: 'bob', channelType: 1 };
+
+function message(seq: number, channel = chat, timestamp = 1700000000 + seq): StoredMessage {
+  return {
+    messageId: `${channel.channelId}-${seq}`,
+    messageSeq: seq,
+    channelId: channel.channelId,
+    channelType: channel.channelType,
+    fromUid: 'alice',
+    timestamp,
+    payload: { seq },
+  };
+}
+
+describe('ConversationManager', () => {
+  it('tracks the last message and counts red-dot messages as unread', () => {
+    const manager = new ConversationManager(() => {});
+    manager.apply(message(1), true);
+    manager.apply(message(2), false);
+    manager.apply(message(3), true);
+
+    expect(manager.get(chat)).toMatchObject({ unread: 2, timestamp: 1700000003, muted: false });
+    expect(manager.get(chat)?.lastMessage?.messageSeq).toBe(3);
+    expect(manager.get(friend)).toBeNull();
+  });
+
+  it('keeps the newest last message when messages arrive out of order', () => {
+    const manager = new ConversationManager(() => {});
+    manager.apply(message(5), true);
+    manager.apply(message(4), true);
+
+    expect(manager.get(chat)?.lastMessage?.messageSeq).toBe(5);
+    expect(manager.get(chat)?.unread).toBe(2);
+  });
+
+  it('lists conversations most recent first', () => {
+    const manager = new ConversationManager(() => {});
+    manager.apply(message(1, chat, 100), false);
+    manager.apply(message(1, friend, 200), false);
+
+    expect(manager.list().map(c => c.channelId)).toEqual(['bob', 'chat']);
+    manager.apply(message(2, chat, 300), false);
+    expect(manager.list().map(c => c.channelId)).toEqual(['chat', 'bob']);
+  });
+
+  it('markRead resets unread and notifies only on change', () => {
+    const onUpdate = vi.fn();
+    const manager = new ConversationManager(onUpdate);
+    manager.apply(message(1), true);
+    onUpdate.mockClear();
+
+    manager.markRead(chat);
+    manager.markRead(chat);
+    manager.markRead(friend);
+
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    expect(onUpdate.mock.calls[0][0]).toMatchObject({ channelId: 'chat', unread: 0 });
+  });
+
+  it('leaves muted conversations out of totalUnread', () => {
+    const manager = new ConversationManager(() => {});
+    manager.apply(message(1), true);
+    manager.apply(message(1, friend), true);
+    manager.apply(message(2, friend), true);
+    expect(manager.totalUnread()).toBe(3);
+
+    manager.setMuted(friend, true);
+    expect(manager.totalUnread()).toBe(1);
+    expect(manager.get(friend)).toMatchObject({ muted: true, unread: 2 });
+  });
+
+  it('hydrates from sync items, taking unread and mute state from the server', () => {
+    const manager = new ConversationManager(() => {});
+    manager.apply(message(9), true);
+
+    manager.hydrate([
+      { channelId: 'chat', channelType: 2, unread: 4, lastMessage: message(7), timestamp: 1700000007 },
+      { channelId: 'bob', channelType: 1, unread: 1, muted: true, timestamp: 1600000000 },
+    ]);
+
+    expect(manager.get(chat)).toMatchObject({ unread: 4, timestamp: 1700000009 });
+    expect(manager.get(chat)?.lastMessage?.messageSeq).toBe(9);
+    expect(manager.get(friend)).toMatchObject({ unread: 1, muted: true, lastMessage: null, timestamp: 1600000000 });
+  });
+
+  it('does not count messages the synced unread count already includes', () => {
+    const manager = new ConversationManager(() => {});
+    manager.hydrate([{ channelId: 'chat', channelType: 2, unread: 2, lastMsgSeq: 5 }]);
+
+    manager.apply(message(4), true);
+    manager.apply(message(5), true);
+    expect(manager.get(chat)?.unread).toBe(2);
+    manager.apply(message(6), true);
+    expect(manager.get(chat)?.unread).toBe(3);
+    expect(manager.get(chat)?.lastMessage?.messageSeq).toBe(6);
+  });
+
+  it('removeMessage() clears the last message only when it is the one removed', () => {
+    const onUpdate = vi.fn();
+    const manager = new ConversationManager(onUpdate);
+    manager.apply(message(1), false);
+    manager.apply(message(2), false);
+    onUpdate.mockClear();
+
+    manager.removeMessage(message(1));
+    expect(manager.get(chat)?.lastMessage?.messageSeq).toBe(2);
+    manager.removeMessage(message(2));
+    expect(manager.get(chat)).toMatchObject({ lastMessage: null, timestamp: 1700000002 });
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands out copies', () => {
+    const onUpdate = vi.fn();
+    const manager = new ConversationManager(onUpdate);
+    manager.apply(message(1), true);
+
+    onUpdate.mock.calls[0][0].unread = 99;
+    manager.list()[0].unread = 99;
+    expect(manager.get(chat)?.unread).toBe(1);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DedupCache, DedupStorage } from '../dedup';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function memoryStorage(): DedupStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); },
+  };
+}
+
+/** Looks a message up and records it, as happens for an auto-acked message; true for a duplicate */
+function receive(cache: DedupCache, message: Parameters<DedupCache['has']>[0]): boolean {
+  const duplicate = cache.has(message);
+  cache.remember(message);
+  return duplicate;
+}
+
+describe('DedupCache', () => {
+  it('detects repeated messageIds', () => {
+    const cache = new DedupCache({}, 'k');
+    expect(receive(cache, { messageId: '1' })).toBe(false);
+    expect(receive(cache, { messageId: '1' })).toBe(true);
+    expect(receive(cache, { messageId: '2' })).toBe(false);
+  });
+
+  it('detects a resend with a new messageId but the same clientMsgNo in the same channel', () => {
+    const cache = new DedupCache({}, 'k');
+    expect(receive(cache, { messageId: '1', clientMsgNo: 'n', channelId: 'c', channelType: 1 })).toBe(false);
+    expect(receive(cache, { messageId: '2', clientMsgNo: 'n', channelId: 'c', channelType: 1 })).toBe(true);
+    expect(receive(cache, { messageId: '3', clientMsgNo: 'n', channelId: 'other', channelType: 1 })).toBe(false);
+  });
+
+  it('has() only looks; remember() records', () => {
+    const cache = new DedupCache({}, 'k');
+    expect(cache.has({ messageId: '1' })).toBe(false);
+    expect(cache.has({ messageId: '1' })).toBe(false);
+    cache.remember({ messageId: '1' });
+    expect(cache.has({ messageId: '1' })).toBe(true);
+    expect(cache.size).toBe(1);
+  });
+
+  it('evicts the oldest keys beyond maxSize', () => {
+    const cache = new DedupCache({ maxSize: 2 }, 'k');
+    receive(cache, { messageId: '1' });
+    receive(cache, { messageId: '2' });
+    receive(cache, { messageId: '3' });
+
+    expect(cache.size).toBe(2);
+    expect(receive(cache, { messageId: '1' })).toBe(false);
+  });
+
+  it('forgets keys after ttl', () => {
+    vi.useFakeTimers();
+    const cache = new DedupCache({ ttl: 1000 }, 'k');
+    receive(cache, { messageId: '1' });
+
+    vi.advanceTimersByTime(999);
+    expect(receive(cache, { messageId: '1' })).toBe(true);
+    vi.advanceTimersByTime(1);
+    expect(receive(cache, { messageId: '1' })).toBe(false);
+  });
+
+  it('persists to storage and reloads on construction', () => {
+    vi.useFakeTimers();
+    const storage = memoryStorage();
+    const cache = new DedupCache({ storage }, 'wkim:dedup:alice');
+    receive(cache, { messageId: '1' });
+    expect(storage.data.size).toBe(0); // Writes are coalesced
+
+    vi.advanceTimersByTime(500);
+    expect(storage.data.has('wkim:dedup:alice')).toBe(true);
+
+    const reloaded = new DedupCache({ storage }, 'wkim:dedup:alice');
+    expect(receive(reloaded, { messageId: '1' })).toBe(true);
+  });
+
+  it('flush() writes pending changes immediately', () => {
+    const storage = memoryStorage();
+    const cache = new DedupCache({ storage, storageKey: 'custom' }, 'k');
+    receive(cache, { messageId: '1' });
+
+    cache.flush();
+    expect(JSON.parse(storage.data.get('custom')!)).toEqual([['id:1', expect.any(Number)]]);
+  });
+
+  it('ignores corrupt or failing storage', () => {
+    const storage = memoryStorage();
+    storage.data.set('k', '{not json');
+    storage.setItem = () => { throw new Error('QuotaExceededError'); };
+
+    const cache = new DedupCache({ storage }, 'k');
+    expect(receive(cache, { messageId: '1' })).toBe(false);
+    expect(() => cache.flush()).not.toThrow();
+    expect(receive(cache, { messageId: '1' })).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ExpiryQueue } from '../expiry';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ExpiryQueue', () => {
+  it('fires entries in deadline order with a single timer', () => {
+    const expired: string[] = [];
+    const queue = new ExpiryQueue<string>(item => expired.push(item));
+    const now = Date.now();
+
+    queue.add(now + 3000, 'c');
+    queue.add(now + 1000, 'a');
+    queue.add(now + 2000, 'b');
+    expect(vi.getTimerCount()).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(expired).toEqual(['a']);
+    vi.advanceTimersByTime(2000);
+    expect(expired).toEqual(['a', 'b', 'c']);
+    expect(queue.size).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('keeps arrival order for equal deadlines', () => {
+    const expired: number[] = [];
+    const queue = new ExpiryQueue<number>(item => expired.push(item));
+    const at = Date.now() + 500;
+    queue.add(at, 1);
+    queue.add(at, 2);
+
+    vi.advanceTimersByTime(500);
+    expect(expired).toEqual([1, 2]);
+  });
+
+  it('re-arms deadlines beyond the maximum timer delay', () => {
+    const onExpire = vi.fn();
+    const queue = new ExpiryQueue<string>(onExpire);
+    const days = 30 * 24 * 60 * 60 * 1000;
+    queue.add(Date.now() + days, 'later');
+
+    vi.advanceTimersByTime(0x7fffffff);
+    expect(onExpire).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(days - 0x7fffffff);
+    expect(onExpire).toHaveBeenCalledWith('later');
+  });
+
+  it('clear() drops entries and the timer', () => {
+    const onExpire = vi.fn();
+    const queue = new ExpiryQueue<string>(onExpire);
+    queue.add(Date.now() + 100, 'x');
+
+    queue.clear();
+    vi.advanceTimersByTime(100);
+    expect(onExpire).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
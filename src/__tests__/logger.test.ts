@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLogger, redact, REDACTED, Logger } from '../logger';
+
+function sink(): Logger & { [K in keyof Logger]: ReturnType<typeof vi.fn> } {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('redact', () => {
+  it('masks tokens, keys and payloads at any depth', () => {
+    const request = {
+      id: '1',
+      method: 'connect',
+      params: { uid: 'alice', token: 'secret', clientKey: 'ck', messages: [{ payload: 'aGk=', msgKey: 'mk' }] },
+    };
+
+    expect(redact(request)).toEqual({
+      id: '1',
+      method: 'connect',
+      params: { uid: 'alice', token: REDACTED, clientKey: REDACTED, messages: [{ payload: REDACTED, msgKey: REDACTED }] },
+    });
+    expect(request.params.token).toBe('secret');
+  });
+
+  it('leaves empty values visible', () => {
+    expect(redact({ token: '', payload: undefined })).toEqual({ token: '', payload: undefined });
+  });
+
+  it('summarizes binary data and keeps errors and primitives', () => {
+    const error = new Error('boom');
+    expect(redact(new Uint8Array(3).buffer)).toBe('[3 bytes]');
+    expect(redact(new Uint8Array(5))).toBe('[5 bytes]');
+    expect(redact(error)).toBe(error);
+    expect(redact('text')).toBe('text');
+    expect(redact(null)).toBeNull();
+  });
+});
+
+describe('createLogger', () => {
+  it('drops entries below the threshold', () => {
+    const target = sink();
+    const logger = createLogger(target, 'warn');
+
+    logger.debug('d');
+    logger.info('i');
+    logger.warn('w');
+    logger.error('e');
+
+    expect(target.debug).not.toHaveBeenCalled();
+    expect(target.info).not.toHaveBeenCalled();
+    expect(target.warn).toHaveBeenCalledWith('w');
+    expect(target.error).toHaveBeenCalledWith('e');
+  });
+
+  it('forwards nothing when silent', () => {
+    const target = sink();
+    const logger = createLogger(target, 'silent');
+    logger.error('e');
+    expect(target.error).not.toHaveBeenCalled();
+  });
+
+  it('redacts every argument', () => {
+    const target = sink();
+    createLogger(target, 'debug').debug('--> Sending:', { params: { token: 't' } });
+    expect(target.debug).toHaveBeenCalledWith('--> Sending:', { params: { token: REDACTED } });
+  });
+
+  it('swallows errors thrown by the sink', () => {
+    const target = sink();
+    target.error.mockImplementation(() => { throw new Error('sink down'); });
+    expect(() => createLogger(target, 'error').error('e')).not.toThrow();
+  });
+});
@@ -105,8 +105,9 @@ export class MockWebSocket {
   /**
    * Simulate a successful connect auth response.
    * Looks at sent messages for a connect request and responds with success.
+   * @param timeDiff Server clock minus the client's clientTimestamp, in ms
    */
-  simulateAuthSuccess(): void {
+  simulateAuthSuccess(timeDiff = 0): void {
     const connectMsg = this.findSentMessage('connect');
     if (connectMsg) {
       this.simulateMessage(JSON.stringify({
@@ -114,7 +115,7 @@ export class MockWebSocket {
         result: {
           serverKey: 'test-server-key',
           salt: 'test-salt',
-          timeDiff: 0,
+          timeDiff,
           reasonCode: 1, // ReasonCode.Success
         },
       }));
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { ReceiptTracker } from '../receipt';
+
+const group = { channelId: 'group1', channelType: 2 };
+
+describe('ReceiptTracker', () => {
+  it('tracks who has read a group message', () => {
+    const tracker = new ReceiptTracker();
+    expect(tracker.apply({ ...group, messageIds: ['m1', 'm2'], uid: 'bob' })).toEqual([
+      { messageId: 'm1', ...group, readBy: ['bob'], readCount: 1 },
+      { messageId: 'm2', ...group, readBy: ['bob'], readCount: 1 },
+    ]);
+    tracker.apply({ ...group, messageIds: ['m1'], uid: 'carol' });
+
+    expect(tracker.get('m1')).toMatchObject({ readBy: ['bob', 'carol'], readCount: 2 });
+    expect(tracker.get('m3')).toBeNull();
+  });
+
+  it('reports only changes', () => {
+    const tracker = new ReceiptTracker();
+    tracker.apply({ ...group, messageIds: ['m1'], uid: 'bob' });
+
+    expect(tracker.apply({ ...group, messageIds: ['m1'], uid: 'bob' })).toEqual([]);
+    expect(tracker.apply({ ...group, messageIds: ['m1'], readCount: 1 })).toEqual([]);
+  });
+
+  it('accepts server-side counts without reader uids', () => {
+    const tracker = new ReceiptTracker();
+    tracker.apply({ ...group, messageIds: ['m1'], uid: 'bob' });
+
+    expect(tracker.apply({ ...group, messageIds: ['m1'], readCount: 3 })).toEqual([
+      { messageId: 'm1', ...group, readBy: ['bob'], readCount: 3 },
+    ]);
+    expect(tracker.apply({ ...group, messageIds: ['m1'], readCount: 2 })).toEqual([]);
+  });
+
+  it('ignores reads from our own uid', () => {
+    const tracker = new ReceiptTracker();
+    expect(tracker.apply({ ...group, messageIds: ['m1'], uid: 'me' }, 'me')).toEqual([]);
+    expect(tracker.get('m1')).toBeNull();
+  });
+
+  it('forgets the oldest messages beyond maxSize', () => {
+    const tracker = new ReceiptTracker(2);
+    ['m1', 'm2', 'm3'].forEach(messageId => tracker.apply({ ...group, messageIds: [messageId], uid: 'bob' }));
+
+    expect(tracker.get('m1')).toBeNull();
+    expect(tracker.get('m3')).not.toBeNull();
+  });
+
+  it('remembers which messages were already marked read', () => {
+    const tracker = new ReceiptTracker();
+    expect(tracker.unreported(['m1', 'm2', 'm1'])).toEqual(['m1', 'm2']);
+    tracker.markReported(['m1']);
+    expect(tracker.unreported(['m1', 'm2'])).toEqual(['m2']);
+  });
+});
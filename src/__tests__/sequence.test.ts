@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { SequenceTracker } from '../sequence';
+
+const chat = { channelId: 'chat', channelType: 2 };
+
+describe('SequenceTracker', () => {
+  it('accepts the first and consecutive sequences without gaps', () => {
+    const tracker = new SequenceTracker();
+    expect(tracker.track(chat, 10)).toBeNull();
+    expect(tracker.track(chat, 11)).toBeNull();
+    expect(tracker.highWater(chat)).toBe(11);
+  });
+
+  it('reports a jump as a gap and remembers it', () => {
+    const tracker = new SequenceTracker();
+    tracker.track(chat, 1);
+
+    expect(tracker.track(chat, 5)).toEqual({ channel: chat, from: 2, to: 4 });
+    expect(tracker.gaps()).toEqual([{ channel: chat, from: 2, to: 4 }]);
+  });
+
+  it('shrinks a gap as late messages arrive', () => {
+    const tracker = new SequenceTracker();
+    tracker.track(chat, 1);
+    tracker.track(chat, 6);
+
+    expect(tracker.track(chat, 3)).toBeNull();
+    expect(tracker.gaps().map(({ from, to }) => [from, to])).toEqual([[2, 2], [4, 5]]);
+    tracker.track(chat, 2);
+    tracker.track(chat, 4);
+    tracker.track(chat, 5);
+    expect(tracker.gaps()).toEqual([]);
+  });
+
+  it('ignores unsequenced messages and tracks channels separately', () => {
+    const tracker = new SequenceTracker();
+    const other = { channelId: 'chat', channelType: 1 };
+    tracker.track(chat, 1);
+    expect(tracker.track(chat, 0)).toBeNull();
+    expect(tracker.track(other, 7)).toBeNull();
+
+    expect(tracker.highWater(chat)).toBe(1);
+    expect(tracker.highWater(other)).toBe(7);
+  });
+
+  it('syncRanges() lists open gaps and everything after each high-water mark', () => {
+    const tracker = new SequenceTracker();
+    tracker.track(chat, 1);
+    tracker.track(chat, 4);
+
+    expect(tracker.syncRanges()).toEqual([
+      { channel: chat, from: 2, to: 3 },
+      { channel: chat, from: 5 },
+    ]);
+  });
+
+  it('resolve() forgets backfilled gaps', () => {
+    const tracker = new SequenceTracker();
+    tracker.track(chat, 1);
+    tracker.track(chat, 4);
+    tracker.track(chat, 9);
+
+    tracker.resolve({ channel: chat, from: 2, to: 3 });
+    expect(tracker.gaps()).toEqual([{ channel: chat, from: 5, to: 8 }]);
+    tracker.resolve({ channel: chat, from: 5 });
+    expect(tracker.gaps()).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StatsCollector, frameSize } from '../stats';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('frameSize', () => {
+  it('counts UTF-8 bytes of text frames and byteLength of binary frames', () => {
+    expect(frameSize('abc')).toBe(3);
+    expect(frameSize('é')).toBe(2);
+    expect(frameSize('你')).toBe(3);
+    expect(frameSize('😀')).toBe(4);
+    expect(frameSize(new Uint8Array(7).buffer)).toBe(7);
+    expect(frameSize(new Uint8Array(5))).toBe(5);
+    expect(frameSize(null)).toBe(0);
+  });
+});
+
+describe('StatsCollector', () => {
+  it('starts empty', () => {
+    const stats = new StatsCollector().snapshot(0);
+    expect(stats.pingRtt).toEqual({ count: 0, last: null, min: null, max: null, avg: null, p50: null, p90: null, p99: null });
+    expect(stats.messages).toEqual({ sent: 0, received: 0, acked: 0, byChannelType: {} });
+    expect(stats.reconnects.currentOutageMs).toBeNull();
+    expect(stats.lastError).toBeNull();
+  });
+
+  it('computes nearest-rank percentiles over the sample window', () => {
+    const collector = new StatsCollector(100);
+    for (let rtt = 1; rtt <= 100; rtt++) {
+      collector.recordPing(rtt);
+    }
+    const { pingRtt } = collector.snapshot(0);
+    expect(pingRtt).toMatchObject({ count: 100, last: 100, min: 1, max: 100, avg: 51, p50: 50, p90: 90, p99: 99 });
+
+    // Older samples fall out of the window, but count/min/avg cover everything since reset
+    for (let i = 0; i < 100; i++) {
+      collector.recordPing(1000);
+    }
+    expect(collector.snapshot(0).pingRtt).toMatchObject({ count: 200, min: 1, p50: 1000 });
+  });
+
+  it('counts messages per channel type', () => {
+    const collector = new StatsCollector();
+    collector.recordSent(1);
+    collector.recordSent(2);
+    collector.recordAcked(1, 30);
+    collector.recordReceived(2);
+
+    expect(collector.snapshot(3).messages).toEqual({
+      sent: 2,
+      received: 1,
+      acked: 1,
+      byChannelType: { 1: { sent: 1, received: 0, acked: 1 }, 2: { sent: 1, received: 1, acked: 0 } },
+    });
+    expect(collector.snapshot(3).pendingRequests).toBe(3);
+    expect(collector.snapshot(3).sendLatency.last).toBe(30);
+  });
+
+  it('measures an outage across several reconnect attempts', () => {
+    vi.useFakeTimers();
+    const collector = new StatsCollector();
+
+    collector.outageStarted();
+    vi.advanceTimersByTime(1000);
+    collector.recordReconnectAttempt();
+    vi.advanceTimersByTime(2000);
+    collector.recordReconnectAttempt();
+    expect(collector.snapshot(0).reconnects.currentOutageMs).toBe(3000);
+    vi.advanceTimersByTime(500);
+    collector.recordConnected();
+
+    expect(collector.snapshot(0).reconnects).toEqual({
+      attempts: 2,
+      successes: 1,
+      lastDurationMs: 3500,
+      totalDurationMs: 3500,
+      currentOutageMs: null,
+    });
+  });
+
+  it('does not count a first connect or an abandoned outage as a reconnect', () => {
+    const collector = new StatsCollector();
+    collector.recordConnected();
+    collector.recordReconnectAttempt();
+    collector.abandonOutage();
+    collector.recordConnected();
+
+    expect(collector.snapshot(0).reconnects).toMatchObject({ attempts: 1, successes: 0, lastDurationMs: null });
+  });
+
+  it('reset() clears counters but keeps the outage in progress', () => {
+    vi.useFakeTimers();
+    const collector = new StatsCollector();
+    collector.recordSent(1);
+    collector.recordBytesOut('abc');
+    collector.recordError(Object.assign(new Error('bad key'), { code: 21 }));
+    collector.recordReconnectAttempt();
+    vi.advanceTimersByTime(1000);
+
+    collector.reset();
+    vi.advanceTimersByTime(1000);
+    collector.recordConnected();
+
+    const stats = collector.snapshot(0);
+    expect(stats.messages.sent).toBe(0);
+    expect(stats.bytesOut).toBe(0);
+    expect(stats.lastError).toBeNull();
+    expect(stats.reconnects).toMatchObject({ attempts: 0, successes: 1, lastDurationMs: 2000 });
+  });
+
+  it('records the last error with its code', () => {
+    const collector = new StatsCollector();
+    collector.recordError(Object.assign(new Error('bad key'), { code: 21 }));
+    expect(collector.snapshot(0).lastError).toMatchObject({ message: 'bad key', code: 21 });
+  });
+});
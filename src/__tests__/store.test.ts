@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { MemoryMessageStore, IndexedDBMessageStore, FileMessageStore, IMessageStore, StoredMessage } from '../store';
+
+const chat = { channelId: 'chat', channelType: 2 };
+
+function message(seq: number, channel = chat): StoredMessage {
+  return {
+    messageId: `${channel.channelType}-${channel.channelId}-${seq}`,
+    messageSeq: seq,
+    channelId: channel.channelId,
+    channelType: channel.channelType,
+    fromUid: 'alice',
+    timestamp: 1700000000 + seq,
+    payload: { seq },
+  };
+}
+
+const seqs = (messages: StoredMessage[]) => messages.map(m => m.messageSeq);
+
+describe.each([
+  ['MemoryMessageStore', (): IMessageStore => new MemoryMessageStore()],
+  ['IndexedDBMessageStore', (): IMessageStore => new IndexedDBMessageStore('wkim-test', { indexedDB: new IDBFactory(), IDBKeyRange })],
+])('%s', (_name, createStore) => {
+  let store: IMessageStore;
+
+  beforeEach(async () => {
+    store = createStore();
+    for (const seq of [3, 1, 5, 2, 4]) {
+      await store.put(message(seq));
+    }
+    await store.put(message(1, { channelId: 'chat', channelType: 1 }));
+  });
+
+  it('returns a channel in ascending messageSeq order', async () => {
+    expect(seqs(await store.getMessages(chat))).toEqual([1, 2, 3, 4, 5]);
+    expect(seqs(await store.getMessages({ channelId: 'other', channelType: 2 }))).toEqual([]);
+  });
+
+  it('pages backwards with beforeSeq and limit', async () => {
+    const latest = await store.getMessages(chat, { limit: 2 });
+    expect(seqs(latest)).toEqual([4, 5]);
+    const older = await store.getMessages(chat, { beforeSeq: latest[0].messageSeq, limit: 2 });
+    expect(seqs(older)).toEqual([2, 3]);
+    expect(seqs(await store.getMessages(chat, { beforeSeq: 2, limit: 2 }))).toEqual([1]);
+  });
+
+  it('keeps the messages right after afterSeq when only afterSeq is given', async () => {
+    expect(seqs(await store.getMessages(chat, { afterSeq: 1, limit: 2 }))).toEqual([2, 3]);
+    expect(seqs(await store.getMessages(chat, { afterSeq: 1, beforeSeq: 5 }))).toEqual([2, 3, 4]);
+  });
+
+  it('treats both bounds as exclusive and keeps the messages closest to beforeSeq', async () => {
+    expect(seqs(await store.getMessages(chat, { afterSeq: 2, beforeSeq: 3 }))).toEqual([]);
+    expect(seqs(await store.getMessages(chat, { afterSeq: 1, beforeSeq: 5, limit: 2 }))).toEqual([3, 4]);
+    expect(seqs(await store.getMessages(chat, { afterSeq: 5 }))).toEqual([]);
+    expect(seqs(await store.getMessages(chat, { beforeSeq: 1 }))).toEqual([]);
+  });
+
+  it('returns everything when the limit exceeds the matches, and nothing for limit 0', async () => {
+    expect(seqs(await store.getMessages(chat, { limit: 10 }))).toEqual([1, 2, 3, 4, 5]);
+    expect(seqs(await store.getMessages(chat, { afterSeq: 3, limit: 10 }))).toEqual([4, 5]);
+    expect(await store.getMessages(chat, { limit: 0 })).toEqual([]);
+  });
+
+  it('keeps channels with the same id but different types apart', async () => {
+    expect(seqs(await store.getMessages({ channelId: 'chat', channelType: 1 }))).toEqual([1]);
+  });
+
+  it('gets, replaces and deletes by messageId', async () => {
+    await store.put({ ...message(2), payload: { edited: true } });
+    expect((await store.get('2-chat-2'))?.payload).toEqual({ edited: true });
+    await store.delete('2-chat-2');
+    expect(await store.get('2-chat-2')).toBeNull();
+    expect(seqs(await store.getMessages(chat))).toEqual([1, 3, 4, 5]);
+  });
+
+  it('round-trips every field', async () => {
+    const full: StoredMessage = { ...message(9), clientMsgNo: 'n9', topic: 'tp', expiresAt: Date.now() + 60_000, outgoing: true };
+    await store.put(full);
+    expect(await store.get(full.messageId)).toEqual(full);
+  });
+
+  it('leaves out expired messages', async () => {
+    await store.put({ ...message(6), expiresAt: Date.now() - 1 });
+    await store.put({ ...message(7), expiresAt: Date.now() + 60_000 });
+
+    expect(seqs(await store.getMessages(chat, { afterSeq: 4, limit: 2 }))).toEqual([5, 7]);
+    expect(seqs(await store.getMessages(chat, { limit: 2 }))).toEqual([5, 7]);
+    expect(await store.get('2-chat-6')).toBeNull();
+    expect(await store.get('2-chat-7')).not.toBeNull();
+  });
+
+  it('returns copies, not stored objects', async () => {
+    const stored = await store.get('2-chat-1');
+    stored!.payload = 'changed';
+    expect((await store.get('2-chat-1'))?.payload).toEqual({ seq: 1 });
+  });
+
+  it('clears every channel', async () => {
+    await store.clear();
+    expect(await store.getMessages(chat)).toEqual([]);
+    expect(await store.get('2-chat-1')).toBeNull();
+  });
+});
+
+describe('IndexedDBMessageStore', () => {
+  it('keeps messages across instances sharing a database', async () => {
+    const indexedDB = new IDBFactory();
+    const store = new IndexedDBMessageStore('wkim-u1', { indexedDB, IDBKeyRange });
+    await store.put(message(1));
+    await store.put(message(2));
+
+    const reopened = new IndexedDBMessageStore('wkim-u1', { indexedDB, IDBKeyRange });
+    expect(seqs(await reopened.getMessages(chat))).toEqual([1, 2]);
+    const otherUser = new IndexedDBMessageStore('wkim-u2', { indexedDB, IDBKeyRange });
+    expect(await otherUser.getMessages(chat)).toEqual([]);
+  });
+
+  it('rejects when IndexedDB is not available', async () => {
+    const store = new IndexedDBMessageStore();
+    await expect(store.get('x')).rejects.toThrow('IndexedDB is not available in this environment.');
+  });
+});
+
+describe('FileMessageStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wkim-store-'));
+    file = join(dir, 'messages.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('starts empty when the file does not exist', async () => {
+    const store = new FileMessageStore(file, { fileSystem: fs, writeDelay: 0 });
+    expect(await store.getMessages(chat)).toEqual([]);
+  });
+
+  it('persists messages across instances', async () => {
+    const store = new FileMessageStore(file, { fileSystem: fs, writeDelay: 0 });
+    await store.put(message(1));
+    await store.put(message(2));
+    await store.delete('2-chat-1');
+
+    const reopened = new FileMessageStore(file, { fileSystem: fs, writeDelay: 0 });
+    expect(seqs(await reopened.getMessages(chat))).toEqual([2]);
+    expect(await reopened.get('2-chat-2')).toEqual(message(2));
+  });
+
+  it('drops expired messages when loading', async () => {
+    await fs.writeFile(file, JSON.stringify([
+      { ...message(1), expiresAt: Date.now() - 1 },
+      { ...message(2), expiresAt: Date.now() + 60_000 },
+      message(3),
+    ]), 'utf8');
+
+    const store = new FileMessageStore(file, { fileSystem: fs, writeDelay: 0 });
+    expect(seqs(await store.getMessages(chat))).toEqual([2, 3]);
+    await store.put(message(4));
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).map((m: StoredMessage) => m.messageSeq).sort()).toEqual([2, 3, 4]);
+  });
+
+  it('serializes concurrent writes', async () => {
+    const store = new FileMessageStore(file, { fileSystem: fs, writeDelay: 0 });
+    await Promise.all([1, 2, 3, 4].map(seq => store.put(message(seq))));
+
+    const saved = JSON.parse(await fs.readFile(file, 'utf8'));
+    expect(saved.map((m: StoredMessage) => m.messageSeq).sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it('coalesces changes made within writeDelay into one write', async () => {
+    const writeFile = vi.spyOn(fs, 'writeFile');
+    const store = new FileMessageStore(file, { fileSystem: fs, writeDelay: 20 });
+    await store.getMessages(chat); // Loaded
+
+    await Promise.all([1, 2, 3, 4, 5].map(seq => store.put(message(seq))));
+    expect(writeFile).toHaveBeenCalledTimes(1);
+
+    await store.delete('2-chat-1');
+    expect(writeFile).toHaveBeenCalledTimes(2);
+    const saved = JSON.parse(await fs.readFile(file, 'utf8'));
+    expect(saved.map((m: StoredMessage) => m.messageSeq).sort()).toEqual([2, 3, 4, 5]);
+    writeFile.mockRestore();
+  });
+
+  it('removes the temporary file when a write fails, and writes again on the next change', async () => {
+    const fileSystem = { ...fs, rename: vi.fn().mockRejectedValueOnce(new Error('EXDEV')).mockImplementation(fs.rename) };
+    const store = new FileMessageStore(file, { fileSystem, writeDelay: 0 });
+
+    await expect(store.put(message(1))).rejects.toThrow('EXDEV');
+    await expect(fs.access(`${file}.tmp`)).rejects.toThrow();
+
+    await store.put(message(2));
+    const saved = JSON.parse(await fs.readFile(file, 'utf8'));
+    expect(saved.map((m: StoredMessage) => m.messageSeq).sort()).toEqual([1, 2]);
+  });
+
+  it('rejects reads of a corrupt file and retries the load later', async () => {
+    await fs.writeFile(file, '{not json', 'utf8');
+    const store = new FileMessageStore(file, { fileSystem: fs, writeDelay: 0 });
+    await expect(store.getMessages(chat)).rejects.toThrow();
+
+    await fs.writeFile(file, JSON.stringify([message(7)]), 'utf8');
+    expect(seqs(await store.getMessages(chat))).toEqual([7]);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StreamAssembler, StreamFlag, MessageStreamWriter, StreamEvent } from '../stream';
+import type { RecvMessage } from '../index';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function chunk(streamId: number, streamFlag: StreamFlag, content?: string, streamNo = 's1'): RecvMessage {
+  return {
+    header: {},
+    setting: { stream: true },
+    messageId: `m${streamId}`,
+    messageSeq: streamId,
+    timestamp: 1,
+    channelId: 'ai',
+    channelType: 1,
+    fromUid: 'bot',
+    payload: content === undefined ? {} : { content },
+    streamNo,
+    streamId: String(streamId),
+    streamFlag,
+  };
+}
+
+function createAssembler(gapTimeout?: number, idleTimeout?: number) {
+  const events: Array<{ type: string; event: StreamEvent }> = [];
+  const assembler = new StreamAssembler({
+    onStart: event => events.push({ type: 'start', event }),
+    onDelta: event => events.push({ type: 'delta', event }),
+    onEnd: event => events.push({ type: 'end', event }),
+  }, gapTimeout, idleTimeout);
+  return { assembler, events };
+}
+
+describe('StreamAssembler', () => {
+  it('emits start, deltas with accumulated content, and end', () => {
+    const { assembler, events } = createAssembler();
+    assembler.push(chunk(1, StreamFlag.Start, 'Hel'));
+    assembler.push(chunk(2, StreamFlag.Ing, 'lo'));
+    assembler.push(chunk(3, StreamFlag.End));
+
+    expect(events.map(e => e.type)).toEqual(['start', 'delta', 'delta', 'end']);
+    expect(events[2].event).toMatchObject({ delta: { content: 'lo' }, content: 'Hello', channelId: 'ai', fromUid: 'bot' });
+    expect(events[3].event).toMatchObject({ streamNo: 's1', content: 'Hello', chunks: [{ content: 'Hel' }, { content: 'lo' }], missing: [] });
+    expect(assembler.activeCount).toBe(0);
+  });
+
+  it('reorders chunks that arrive early', () => {
+    const { assembler, events } = createAssembler();
+    assembler.push(chunk(3, StreamFlag.End, 'c'));
+    assembler.push(chunk(2, StreamFlag.Ing, 'b'));
+    expect(events).toEqual([]);
+
+    assembler.push(chunk(1, StreamFlag.Start, 'a'));
+    expect(events.map(e => e.type)).toEqual(['start', 'delta', 'delta', 'delta', 'end']);
+    expect(events[4].event.content).toBe('abc');
+  });
+
+  it('ignores duplicates and chunks of finished streams', () => {
+    const { assembler, events } = createAssembler();
+    assembler.push(chunk(1, StreamFlag.Start, 'a'));
+    assembler.push(chunk(1, StreamFlag.Start, 'a'));
+    assembler.push(chunk(2, StreamFlag.End, 'b'));
+    assembler.push(chunk(2, StreamFlag.End, 'b'));
+
+    expect(events.filter(e => e.type === 'delta')).toHaveLength(2);
+    expect(events.filter(e => e.type === 'end')).toHaveLength(1);
+  });
+
+  it('skips a missing chunk after the gap timeout', () => {
+    vi.useFakeTimers();
+    const { assembler, events } = createAssembler(1000);
+    assembler.push(chunk(1, StreamFlag.Start, 'a'));
+    assembler.push(chunk(3, StreamFlag.Ing, 'c'));
+    assembler.push(chunk(4, StreamFlag.End, 'd'));
+    expect(events.map(e => e.type)).toEqual(['start', 'delta']);
+
+    vi.advanceTimersByTime(1000);
+    const end = events[events.length - 1];
+    expect(end.type).toBe('end');
+    expect(end.event).toMatchObject({ content: 'acd', missing: ['2'] });
+  });
+
+  it('starts from the earliest chunk when the Start chunk never arrives', () => {
+    vi.useFakeTimers();
+    const { assembler, events } = createAssembler(1000);
+    assembler.push(chunk(5, StreamFlag.Ing, 'x'));
+    assembler.push(chunk(6, StreamFlag.End, 'y'));
+
+    vi.advanceTimersByTime(1000);
+    expect(events.map(e => e.type)).toEqual(['start', 'delta', 'delta', 'end']);
+    expect(events[3].event).toMatchObject({ content: 'xy', missing: ['start'] });
+  });
+
+  it('ends a stream whose End chunk never arrives after the idle timeout', () => {
+    vi.useFakeTimers();
+    const { assembler, events } = createAssembler(1000, 5000);
+    assembler.push(chunk(1, StreamFlag.Start, 'a'));
+    vi.advanceTimersByTime(4000);
+    assembler.push(chunk(2, StreamFlag.Ing, 'b'));
+    assembler.push(chunk(4, StreamFlag.Ing, 'd'));
+
+    vi.advanceTimersByTime(4999);
+    expect(events.map(e => e.type)).toEqual(['start', 'delta', 'delta', 'delta']);
+    expect(assembler.activeCount).toBe(1);
+
+    vi.advanceTimersByTime(1);
+    const end = events[events.length - 1];
+    expect(end.type).toBe('end');
+    expect(end.event).toMatchObject({ content: 'abd', missing: ['3', 'end'] });
+    expect(end.event.message.messageId).toBe('m4');
+    expect(assembler.activeCount).toBe(0);
+
+    assembler.push(chunk(5, StreamFlag.End));
+    expect(events.filter(e => e.type === 'end')).toHaveLength(1);
+  });
+
+  it('keeps streams apart by streamNo', () => {
+    const { assembler, events } = createAssembler();
+    assembler.push(chunk(1, StreamFlag.Start, 'a', 's1'));
+    assembler.push(chunk(1, StreamFlag.Start, 'x', 's2'));
+    assembler.push(chunk(2, StreamFlag.End, 'b', 's1'));
+
+    expect(events.filter(e => e.type === 'end').map(e => e.event.content)).toEqual(['ab']);
+    expect(assembler.activeCount).toBe(1);
+    assembler.clear();
+    expect(assembler.activeCount).toBe(0);
+  });
+});
+
+describe('MessageStreamWriter', () => {
+  it('flags the first chunk Start, later ones Ing and the last End', async () => {
+    const sendChunk = vi.fn().mockResolvedValue({ messageId: '1', messageSeq: 1, reasonCode: 1 });
+    const writer = new MessageStreamWriter('s1', sendChunk);
+
+    await writer.write('Hel');
+    await writer.write({ content: 'lo', type: 1 });
+    await writer.end();
+
+    expect(sendChunk.mock.calls).toEqual([
+      [{ content: 'Hel' }, StreamFlag.Start],
+      [{ content: 'lo', type: 1 }, StreamFlag.Ing],
+      [{}, StreamFlag.End],
+    ]);
+    expect(writer.ended).toBe(true);
+  });
+
+  it('rejects writes after end()', async () => {
+    const writer = new MessageStreamWriter('s1', vi.fn().mockResolvedValue({}));
+    await writer.end('done');
+
+    await expect(writer.write('late')).rejects.toThrow('Stream s1 has already ended.');
+    await expect(writer.end()).rejects.toThrow('Stream s1 has already ended.');
+  });
+});
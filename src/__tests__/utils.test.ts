@@ -30,11 +30,24 @@ describe('Event enum', () => {
     expect(Event.SendAck).toBe('sendack');
     expect(Event.Reconnecting).toBe('reconnecting');
     expect(Event.CustomEvent).toBe('customevent');
+    expect(Event.TokenRefreshFailed).toBe('tokenrefreshfailed');
+    expect(Event.StateChange).toBe('statechange');
+    expect(Event.Kicked).toBe('kicked');
+    expect(Event.AuthExpired).toBe('authexpired');
+    expect(Event.ClockSkew).toBe('clockskew');
+    expect(Event.Stats).toBe('stats');
+    expect(Event.StreamStart).toBe('streamstart');
+    expect(Event.StreamDelta).toBe('streamdelta');
+    expect(Event.StreamEnd).toBe('streamend');
+    expect(Event.MessageExpired).toBe('messageexpired');
+    expect(Event.SequenceGap).toBe('sequencegap');
+    expect(Event.ConversationUpdate).toBe('conversationupdate');
+    expect(Event.Receipt).toBe('receipt');
   });
 
-  it('has 7 members', () => {
+  it('has 20 members', () => {
     const values = Object.values(Event);
-    expect(values).toHaveLength(7);
+    expect(values).toHaveLength(20);
   });
 });
 
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createCipheriv, createHash, randomBytes as nodeRandomBytes } from 'node:crypto';
+import { x25519, generateKeyPair, aesCbcEncrypt, aesCbcDecrypt, md5Hex, SecureSession, randomBytes, hasSecureRandom } from '../wkcrypto';
+
+function hex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+describe('x25519', () => {
+  it('matches the RFC 7748 test vector', () => {
+    const scalar = Buffer.from('a546e36bf0527c9d3b16154b82465edd62144c0ac1fc5a18506a2244ba449ac4', 'hex');
+    const point = Buffer.from('e6db6867583030db3594c1a424b15f7c726624ec26b3353b10a903a6d0ab1c4c', 'hex');
+    expect(hex(x25519(scalar, point))).toBe('c3da55379de9c6908e94ea4df28d084f32eccf03491c71f754b4075577a28552');
+  });
+
+  it('derives the same shared secret on both sides', () => {
+    const alice = generateKeyPair();
+    const bob = generateKeyPair();
+    expect(hex(x25519(alice.privateKey, bob.publicKey))).toBe(hex(x25519(bob.privateKey, alice.publicKey)));
+  });
+});
+
+describe('aesCbcEncrypt / aesCbcDecrypt', () => {
+  it.each([0, 1, 15, 16, 17, 100])('matches node:crypto for %i byte inputs', (length) => {
+    const key = nodeRandomBytes(16);
+    const iv = nodeRandomBytes(16);
+    const plain = nodeRandomBytes(length);
+    const cipher = createCipheriv('aes-128-cbc', key, iv);
+    const expected = Buffer.concat([cipher.update(plain), cipher.final()]);
+
+    const encrypted = aesCbcEncrypt(key, iv, plain);
+    expect(hex(encrypted)).toBe(expected.toString('hex'));
+    expect(hex(aesCbcDecrypt(key, iv, encrypted))).toBe(plain.toString('hex'));
+  });
+
+  it('rejects bad padding', () => {
+    const key = nodeRandomBytes(16);
+    const iv = nodeRandomBytes(16);
+    const encrypted = aesCbcEncrypt(key, iv, new Uint8Array([1, 2, 3]));
+    expect(() => aesCbcDecrypt(nodeRandomBytes(16), iv, encrypted)).toThrow();
+  });
+});
+
+describe('md5Hex', () => {
+  it.each(['', 'abc', '中文', 'x'.repeat(200)])('matches node:crypto for %j', (input) => {
+    expect(md5Hex(input)).toBe(createHash('md5').update(input).digest('hex'));
+  });
+});
+
+describe('SecureSession', () => {
+  it('interoperates with a peer session built from the other key pair', () => {
+    const serverKeys = generateKeyPair();
+    const client = new SecureSession();
+    const server = new SecureSession(serverKeys);
+    const salt = 'abcdefghijklmnopqrstuvwxyz';
+
+    client.establish(Buffer.from(serverKeys.publicKey).toString('base64'), salt);
+    server.establish(client.clientKey, salt);
+
+    const encrypted = client.encrypt('{"text":"hi"}');
+    expect(new TextDecoder().decode(server.decrypt(encrypted))).toBe('{"text":"hi"}');
+    expect(client.msgKey('sign')).toBe(server.msgKey('sign'));
+    expect(client.msgKey('sign')).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('rejects invalid server keys and short salts', () => {
+    const session = new SecureSession();
+    expect(() => session.establish('', 'abcdefghijklmnop')).toThrow('Invalid serverKey');
+    expect(() => session.establish(session.clientKey, 'short')).toThrow('Invalid salt');
+    expect(() => session.encrypt('x')).toThrow('not established');
+  });
+});
+
+describe('randomBytes', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('draws from an injected source', () => {
+    const source = vi.fn((bytes: Uint8Array) => bytes.fill(7));
+    expect(Array.from(randomBytes(3, source))).toEqual([7, 7, 7]);
+    expect(generateKeyPair(source).privateKey).toEqual(new Uint8Array(32).fill(7));
+  });
+
+  it('throws instead of falling back to Math.random when no CSPRNG exists', () => {
+    vi.stubGlobal('crypto', undefined);
+    vi.stubGlobal('require', undefined);
+    const mathRandom = vi.spyOn(Math, 'random');
+
+    expect(hasSecureRandom()).toBe(false);
+    expect(() => randomBytes(32)).toThrow('No cryptographically secure random source');
+    expect(() => generateKeyPair()).toThrow('No cryptographically secure random source');
+    expect(mathRandom).not.toHaveBeenCalled();
+    mathRandom.mockRestore();
+  });
+});
@@ -14,7 +14,10 @@ cleanup = mock.cleanup;
 getInstances = mock.getInstances;
 
 // Now import the SDK (will detect 'browser' platform due to global WebSocket)
-import { WKIM, Event, ChannelType, DeviceFlag } from '../index';
+import { WKIM, WKIMOptions, Event, ChannelType, DeviceFlag, ReasonCode, SubscribeAction, ConnectionState, Protocol, PacketType, isRetryableReasonCode } from '../index';
+import { SecureSession, generateKeyPair } from '../wkcrypto';
+import { MemoryMessageStore } from '../store';
+import { randomFillSync as nodeRandomFill } from 'node:crypto';
 
 /** Encode a JSON-serializable value to base64 (matching server wire format). */
 function toBase64(obj: unknown): string {
@@ -31,7 +34,7 @@ function toBase64(obj: unknown): string {
  * Helper: create a WKIM instance and return it with its MockWebSocket.
  * Does NOT auto-connect.
  */
-function createInstance(opts?: { singleton?: boolean }) {
+function createInstance(opts?: WKIMOptions) {
   const instancesBefore = getInstances().length;
   const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, opts);
   return { wkim, getWs: () => getInstances()[instancesBefore] as MockWebSocket };
@@ -41,8 +44,8 @@ function createInstance(opts?: { singleton?: boolean }) {
  * Helper: create a WKIM instance, call connect(), simulate open + auth success,
  * and return the connected instance with its MockWebSocket.
  */
-async function createConnectedInstance() {
-  const { wkim, getWs } = createInstance();
+async function createConnectedInstance(opts?: WKIMOptions) {
+  const { wkim, getWs } = createInstance(opts);
   const connectPromise = wkim.connect();
 
   // Wait for the WebSocket to be created
@@ -65,6 +68,17 @@ async function createConnectedInstance() {
   return { wkim, ws };
 }
 
+/**
+ * Helper: simulate open + auth success on a socket the instance opened.
+ * For tests running on fake timers.
+ */
+async function openAndAuth(ws: MockWebSocket) {
+  ws.simulateOpen();
+  await vi.advanceTimersByTimeAsync(0);
+  ws.simulateAuthSuccess();
+  await vi.advanceTimersByTimeAsync(0);
+}
+
 afterEach(() => {
   // Reset instances for next test
   getInstances().length = 0;
@@ -94,11 +108,19 @@ describe('WKIM.init()', () => {
   });
 
   it('throws without token', () => {
-    expect(() => WKIM.init('ws://test:5100', { uid: 'user1', token: '' } as any)).toThrow(
+    expect(() => WKIM.init('ws://test:5100', { uid: 'user1', token: '' })).toThrow(
+      'URL, uid, and token are required'
+    );
+    expect(() => WKIM.init('ws://test:5100', { uid: 'user1' })).toThrow(
       'URL, uid, and token are required'
     );
   });
 
+  it('accepts a tokenProvider instead of a token', () => {
+    const wkim = WKIM.init('ws://test:5100', { uid: 'user1', tokenProvider: async () => 'token1' });
+    expect(wkim).toBeInstanceOf(WKIM);
+  });
+
   it('throws without auth object', () => {
     expect(() => WKIM.init('ws://test:5100', null as any)).toThrow(
       'URL, uid, and token are required'
@@ -715,3 +737,2034 @@ describe('Cleanup', () => {
     wkim2.destroy();
   });
 });
+
+// ===== Subscription Tests =====
+
+describe('Subscriptions', () => {
+  /** Respond to the most recent request of the given method. */
+  function respondToLast(ws: MockWebSocket, method: string, result: any) {
+    const msgs = ws.sentMessages.map(m => JSON.parse(m)).filter(m => m.method === method);
+    const last = msgs[msgs.length - 1];
+    ws.simulateMessage(JSON.stringify({ id: last.id, result }));
+    return last;
+  }
+
+  it('subscribe() sends a subscribe request and resolves with the result', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+
+    const subPromise = wkim.subscribe('live1', ChannelType.Live, { param: 'p1' });
+    const req = ws.findSentMessage('subscribe');
+    expect(req.params).toMatchObject({ channelId: 'live1', channelType: ChannelType.Live, param: 'p1' });
+    expect(req.params.subNo).toBeDefined();
+
+    respondToLast(ws, 'subscribe', {
+      subNo: req.params.subNo, channelId: 'live1', channelType: ChannelType.Live, action: SubscribeAction.Subscribe, reasonCode: ReasonCode.Success,
+    });
+
+    await expect(subPromise).resolves.toMatchObject({ channelId: 'live1', action: SubscribeAction.Subscribe });
+    wkim.destroy();
+  });
+
+  it('subscribe() rejects on non-Success reason code', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+
+    const subPromise = wkim.subscribe('live1', ChannelType.Live);
+    respondToLast(ws, 'subscribe', {
+      subNo: 'x', channelId: 'live1', channelType: ChannelType.Live, action: SubscribeAction.Subscribe, reasonCode: ReasonCode.Ban,
+    });
+
+    await expect(subPromise).rejects.toThrow('Ban');
+    wkim.destroy();
+  });
+
+  it('subscribe() rejects when not connected', async () => {
+    const { wkim } = createInstance();
+    await expect(wkim.subscribe('live1', ChannelType.Live)).rejects.toThrow('Not connected');
+  });
+
+  it('replays subscriptions after reconnect, except unsubscribed ones', async () => {
+    vi.useFakeTimers();
+    const { wkim, getWs } = createInstance();
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = getWs();
+    ws.simulateOpen();
+    await vi.advanceTimersByTimeAsync(0);
+    ws.simulateAuthSuccess();
+    await connectPromise;
+
+    const sub1 = wkim.subscribe('live1', ChannelType.Live, { param: 'p1' });
+    respondToLast(ws, 'subscribe', { subNo: 'a', channelId: 'live1', channelType: ChannelType.Live, action: 0, reasonCode: ReasonCode.Success });
+    await sub1;
+    const sub2 = wkim.subscribe('info1', ChannelType.Info);
+    respondToLast(ws, 'subscribe', { subNo: 'b', channelId: 'info1', channelType: ChannelType.Info, action: 0, reasonCode: ReasonCode.Success });
+    await sub2;
+    const unsub = wkim.unsubscribe('info1', ChannelType.Info);
+    respondToLast(ws, 'unsubscribe', { subNo: 'c', channelId: 'info1', channelType: ChannelType.Info, action: 1, reasonCode: ReasonCode.Success });
+    await unsub;
+
+    // Drop the connection and let the reconnect timer fire
+    ws.simulateClose(1006, 'Abnormal closure');
+    await vi.advanceTimersByTimeAsync(1000);
+    const ws2 = getInstances()[1];
+    expect(ws2).toBeDefined();
+    ws2.simulateOpen();
+    await vi.advanceTimersByTimeAsync(0);
+    ws2.simulateAuthSuccess();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const replayed = ws2.sentMessages.map(m => JSON.parse(m)).filter(m => m.method === 'subscribe');
+    expect(replayed).toHaveLength(1);
+    expect(replayed[0].params).toMatchObject({ channelId: 'live1', channelType: ChannelType.Live, param: 'p1' });
+
+    wkim.destroy();
+  });
+});
+
+// ===== Outbox Tests =====
+
+describe('Offline outbox', () => {
+  function createOutboxInstance(outbox: any = true) {
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { outbox });
+    return { wkim, getWs: (i = 0) => getInstances()[instancesBefore + i] as MockWebSocket };
+  }
+
+  function sentSends(ws: MockWebSocket) {
+    return ws.sentMessages.map(m => JSON.parse(m)).filter(m => m.method === 'send');
+  }
+
+  it('queues messages while disconnected and flushes them in order after connect', async () => {
+    vi.useFakeTimers();
+    const { wkim, getWs } = createOutboxInstance();
+
+    const p1 = wkim.send('chan1', ChannelType.Person, { n: 1 });
+    const p2 = wkim.send('chan1', ChannelType.Person, { n: 2 });
+
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = getWs();
+    await openAndAuth(ws);
+    await connectPromise;
+
+    const sends = sentSends(ws);
+    expect(sends).toHaveLength(2);
+    expect(sends[0].params.payload).toBe(toBase64({ n: 1 }));
+    expect(sends[1].params.payload).toBe(toBase64({ n: 2 }));
+    expect(sends[0].params.header.dup).toBeUndefined();
+
+    sends.forEach((msg, i) => ws.simulateMessage(JSON.stringify({
+      id: msg.id, result: { messageId: `m${i}`, messageSeq: i + 1, reasonCode: 1 },
+    })));
+    await expect(p1).resolves.toMatchObject({ messageId: 'm0' });
+    await expect(p2).resolves.toMatchObject({ messageId: 'm1' });
+    wkim.destroy();
+  });
+
+  it('retransmits in-flight messages with header.dup after reconnect', async () => {
+    vi.useFakeTimers();
+    const { wkim, getWs } = createOutboxInstance();
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = getWs();
+    await openAndAuth(ws);
+    await connectPromise;
+
+    const sendPromise = wkim.send('chan1', ChannelType.Person, { text: 'in flight' });
+    const first = sentSends(ws)[0];
+    expect(first).toBeDefined();
+
+    ws.simulateClose(1006, 'Abnormal closure');
+    await vi.advanceTimersByTimeAsync(1000);
+    const ws2 = getWs(1);
+    await openAndAuth(ws2);
+
+    const retry = sentSends(ws2)[0];
+    expect(retry.params.clientMsgNo).toBe(first.params.clientMsgNo);
+    expect(retry.params.header.dup).toBe(true);
+
+    ws2.simulateMessage(JSON.stringify({ id: retry.id, result: { messageId: 'm1', messageSeq: 1, reasonCode: 1 } }));
+    await expect(sendPromise).resolves.toMatchObject({ messageId: 'm1' });
+    wkim.destroy();
+  });
+
+  it('rejects messages that exceed maxAge', async () => {
+    vi.useFakeTimers();
+    const { wkim } = createOutboxInstance({ maxAge: 5000 });
+
+    const sendPromise = wkim.send('chan1', ChannelType.Person, { text: 'late' });
+    const assertion = expect(sendPromise).rejects.toThrow('expired in outbox');
+    await vi.advanceTimersByTimeAsync(5000);
+    await assertion;
+    wkim.destroy();
+  });
+
+  it('applies the drop policy when the outbox is full', async () => {
+    const rejectNew = createOutboxInstance({ maxSize: 1 }).wkim;
+    const kept = rejectNew.send('chan1', ChannelType.Person, { n: 1 });
+    await expect(rejectNew.send('chan1', ChannelType.Person, { n: 2 })).rejects.toThrow('Outbox is full');
+    rejectNew.destroy();
+    await expect(kept).rejects.toThrow('destroyed');
+
+    const dropOldest = createOutboxInstance({ maxSize: 1, dropPolicy: 'drop-oldest' }).wkim;
+    const oldest = dropOldest.send('chan1', ChannelType.Person, { n: 1 });
+    const newest = dropOldest.send('chan1', ChannelType.Person, { n: 2 });
+    await expect(oldest).rejects.toThrow('Outbox is full');
+    dropOldest.destroy();
+    await expect(newest).rejects.toThrow('destroyed');
+  });
+});
+
+// ===== Reconnection Policy Tests =====
+
+describe('Reconnection policy', () => {
+  async function connectWithOptions(options: any) {
+    vi.useFakeTimers();
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, options);
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = getInstances()[instancesBefore];
+    ws.simulateOpen();
+    await vi.advanceTimersByTimeAsync(0);
+    ws.simulateAuthSuccess();
+    await connectPromise;
+    return { wkim, ws, getWs: (i: number) => getInstances()[instancesBefore + i] };
+  }
+
+  it('caps the delay at maxDelay and supports unlimited attempts', async () => {
+    const { wkim, ws, getWs } = await connectWithOptions({
+      reconnect: { maxAttempts: Infinity, initialDelay: 1000, maxDelay: 4000 },
+    });
+    const handler = vi.fn();
+    wkim.on(Event.Reconnecting, handler);
+
+    ws.simulateClose(1006, 'Abnormal closure');
+    // Fail 7 attempts in a row; delays should be 1000, 2000, 4000, 4000, ...
+    let elapsed = 0;
+    for (let i = 1; i <= 7; i++) {
+      const { delay } = handler.mock.calls[i - 1][0];
+      await vi.advanceTimersByTimeAsync(delay);
+      elapsed += delay;
+      getWs(i).simulateClose(1006, 'Still down');
+      await vi.advanceTimersByTimeAsync(0);
+    }
+
+    const delays = handler.mock.calls.map(call => call[0].delay);
+    expect(delays.slice(0, 5)).toEqual([1000, 2000, 4000, 4000, 4000]);
+    expect(handler).toHaveBeenCalledTimes(8);
+    wkim.destroy();
+  });
+
+  it('keeps jittered delays within bounds', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const { wkim, ws } = await connectWithOptions({ reconnect: { jitter: 'full', initialDelay: 1000 } });
+    const handler = vi.fn();
+    wkim.on(Event.Reconnecting, handler);
+
+    ws.simulateClose(1006, 'Abnormal closure');
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delay: 500 }));
+    wkim.destroy();
+  });
+
+  it('uses a custom strategy and gives up when it returns false', async () => {
+    const strategy = vi.fn((attempt: number) => (attempt === 1 ? 250 : false));
+    const { wkim, ws, getWs } = await connectWithOptions({ reconnect: { strategy } });
+    const reconnectHandler = vi.fn();
+    const errorHandler = vi.fn();
+    wkim.on(Event.Reconnecting, reconnectHandler);
+    wkim.on(Event.Error, errorHandler);
+
+    ws.simulateClose(1006, 'Abnormal closure');
+    expect(reconnectHandler).toHaveBeenCalledWith({ attempt: 1, delay: 250 });
+    expect(strategy).toHaveBeenCalledWith(1, expect.objectContaining({ message: expect.stringContaining('1006') }));
+
+    await vi.advanceTimersByTimeAsync(250);
+    getWs(1).simulateClose(1006, 'Still down');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(strategy).toHaveBeenCalledTimes(2);
+    expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({ message: 'Reconnection failed.' }));
+    wkim.destroy();
+  });
+
+  it('reconnectNow() skips the pending backoff delay', async () => {
+    const { wkim, ws, getWs } = await connectWithOptions({ reconnect: { initialDelay: 10000 } });
+
+    ws.simulateClose(1006, 'Abnormal closure');
+    const reconnectPromise = wkim.reconnectNow();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const ws2 = getWs(1);
+    expect(ws2).toBeDefined();
+    ws2.simulateOpen();
+    await vi.advanceTimersByTimeAsync(0);
+    ws2.simulateAuthSuccess();
+    await reconnectPromise;
+    expect(wkim.isConnected).toBe(true);
+
+    // The original 10s timer must not create another socket
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(getWs(2)).toBeUndefined();
+    wkim.destroy();
+  });
+});
+
+// ===== Token Refresh Tests =====
+
+describe('Token refresh', () => {
+  function createProviderInstance(tokenProvider: () => Promise<string>) {
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', tokenProvider }, { singleton: false });
+    return { wkim, getWs: (i = 0) => getInstances()[instancesBefore + i] as MockWebSocket };
+  }
+
+  it('uses the token from tokenProvider for the connect request', async () => {
+    const tokenProvider = vi.fn().mockResolvedValue('fresh-token');
+    const { wkim, getWs } = createProviderInstance(tokenProvider);
+
+    const connectPromise = wkim.connect();
+    await vi.waitFor(() => expect(getWs()).toBeDefined());
+    const ws = getWs();
+    ws.simulateOpen();
+    await vi.waitFor(() => expect(ws.findSentMessage('connect')).toBeTruthy());
+    expect(ws.findSentMessage('connect').params.token).toBe('fresh-token');
+
+    ws.simulateAuthSuccess();
+    await connectPromise;
+    expect(tokenProvider).toHaveBeenCalledTimes(1);
+    wkim.destroy();
+  });
+
+  it('refreshes the token and retries once on AuthFail', async () => {
+    const tokenProvider = vi.fn()
+      .mockResolvedValueOnce('stale-token')
+      .mockResolvedValueOnce('renewed-token');
+    const { wkim, getWs } = createProviderInstance(tokenProvider);
+
+    const connectPromise = wkim.connect();
+    await vi.waitFor(() => expect(getWs()).toBeDefined());
+    const ws = getWs();
+    ws.simulateOpen();
+    await vi.waitFor(() => expect(ws.findSentMessage('connect')).toBeTruthy());
+    ws.simulateAuthFailure(ReasonCode.AuthFail, 'Token expired');
+
+    await vi.waitFor(() => expect(getWs(1)).toBeDefined());
+    const ws2 = getWs(1);
+    ws2.simulateOpen();
+    await vi.waitFor(() => expect(ws2.findSentMessage('connect')).toBeTruthy());
+    expect(ws2.findSentMessage('connect').params.token).toBe('renewed-token');
+    ws2.simulateAuthSuccess();
+
+    await connectPromise;
+    expect(wkim.isConnected).toBe(true);
+    expect(tokenProvider).toHaveBeenCalledTimes(2);
+    wkim.destroy();
+  });
+
+  it('emits TokenRefreshFailed and rejects connect when the provider fails', async () => {
+    const { wkim, getWs } = createProviderInstance(() => Promise.reject(new Error('backend down')));
+    const refreshHandler = vi.fn();
+    wkim.on(Event.TokenRefreshFailed, refreshHandler);
+
+    await expect(wkim.connect()).rejects.toThrow('Token refresh failed: backend down');
+    expect(refreshHandler).toHaveBeenCalledTimes(1);
+    expect(getWs()).toBeUndefined();
+    wkim.destroy();
+  });
+
+  it('updateAuth() changes the token used by the next connect', async () => {
+    const { wkim, getWs } = createInstance({ singleton: false });
+    wkim.updateAuth({ token: 'updated-token' });
+
+    const connectPromise = wkim.connect();
+    await vi.waitFor(() => expect(getWs()).toBeDefined());
+    const ws = getWs();
+    ws.simulateOpen();
+    await vi.waitFor(() => expect(ws.findSentMessage('connect')).toBeTruthy());
+    expect(ws.findSentMessage('connect').params.token).toBe('updated-token');
+    ws.simulateAuthSuccess();
+    await connectPromise;
+    wkim.destroy();
+  });
+});
+
+// ===== Connection State Tests =====
+
+describe('Connection state', () => {
+  it('starts idle and walks through connecting, authenticating and connected', async () => {
+    const { wkim, getWs } = createInstance();
+    expect(wkim.state).toBe(ConnectionState.Idle);
+    const transitions: string[] = [];
+    wkim.on(Event.StateChange, (change) => transitions.push(`${change.previous}->${change.next}`));
+
+    const connectPromise = wkim.connect();
+    expect(wkim.state).toBe(ConnectionState.Connecting);
+    await vi.waitFor(() => expect(getWs()).toBeDefined());
+    const ws = getWs();
+    ws.simulateOpen();
+    expect(wkim.state).toBe(ConnectionState.Authenticating);
+    await vi.waitFor(() => expect(ws.findSentMessage('connect')).toBeTruthy());
+    ws.simulateAuthSuccess();
+    await connectPromise;
+
+    expect(wkim.state).toBe(ConnectionState.Connected);
+    expect(transitions).toEqual(['idle->connecting', 'connecting->authenticating', 'authenticating->connected']);
+    wkim.destroy();
+  });
+
+  it('goes straight to reconnecting after an unexpected close', async () => {
+    vi.useFakeTimers();
+    const { wkim, getWs } = createInstance();
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = getWs();
+    await openAndAuth(ws);
+    await connectPromise;
+
+    const handler = vi.fn();
+    wkim.on(Event.StateChange, handler);
+    ws.simulateClose(1006, 'Abnormal closure');
+
+    expect(handler.mock.calls.map(c => c[0].next)).toEqual([ConnectionState.Reconnecting]);
+    expect(handler.mock.calls[0][0]).toMatchObject({ previous: ConnectionState.Connected });
+    expect(handler.mock.calls[0][0].cause).toContain('1006');
+    expect(wkim.state).toBe(ConnectionState.Reconnecting);
+    wkim.destroy();
+  });
+
+  it('disconnect() and destroy() end in disconnected and destroyed', async () => {
+    const { wkim } = await createConnectedInstance();
+    const handler = vi.fn();
+    wkim.on(Event.StateChange, handler);
+
+    wkim.disconnect();
+    expect(wkim.state).toBe(ConnectionState.Disconnected);
+    wkim.destroy();
+    expect(wkim.state).toBe(ConnectionState.Destroyed);
+    expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({ previous: ConnectionState.Disconnected, next: ConnectionState.Destroyed }));
+  });
+});
+
+// ===== Network / Lifecycle Tests =====
+
+describe('Network and lifecycle awareness', () => {
+  let fakeWindow: EventTarget;
+
+  beforeEach(() => {
+    fakeWindow = new EventTarget();
+    (globalThis as any).window = fakeWindow;
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).window;
+  });
+
+  async function connectFake() {
+    vi.useFakeTimers();
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' });
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = getInstances()[instancesBefore];
+    ws.simulateOpen();
+    await vi.advanceTimersByTimeAsync(0);
+    ws.simulateAuthSuccess();
+    await connectPromise;
+    return { wkim, ws, getWs: (i: number) => getInstances()[instancesBefore + i] };
+  }
+
+  it('pauses the backoff while offline and reconnects immediately when back online', async () => {
+    const { wkim, ws, getWs } = await connectFake();
+    const reconnectHandler = vi.fn();
+    wkim.on(Event.Reconnecting, reconnectHandler);
+
+    ws.simulateClose(1006, 'Abnormal closure');
+    expect(reconnectHandler).toHaveBeenCalledTimes(1);
+
+    fakeWindow.dispatchEvent(new globalThis.Event('offline'));
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(getWs(1)).toBeUndefined();
+    expect(wkim.state).toBe(ConnectionState.Reconnecting);
+
+    fakeWindow.dispatchEvent(new globalThis.Event('online'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getWs(1)).toBeDefined();
+    wkim.destroy();
+  });
+
+  it('sends a health-check ping when coming back online while connected', async () => {
+    const { wkim, ws } = await connectFake();
+    ws.sentMessages.length = 0;
+
+    fakeWindow.dispatchEvent(new globalThis.Event('offline'));
+    fakeWindow.dispatchEvent(new globalThis.Event('online'));
+
+    expect(ws.findSentMessage('ping')).toBeTruthy();
+    wkim.destroy();
+  });
+
+  it('removes lifecycle listeners on destroy()', async () => {
+    const { wkim, ws, getWs } = await connectFake();
+    wkim.destroy();
+    ws.sentMessages.length = 0;
+
+    fakeWindow.dispatchEvent(new globalThis.Event('online'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(ws.sentMessages).toHaveLength(0);
+    expect(getWs(1)).toBeUndefined();
+  });
+});
+
+// ===== Endpoint Failover Tests =====
+
+describe('Endpoint failover', () => {
+  it('retries the last good endpoint first, then rotates through the list', async () => {
+    vi.useFakeTimers();
+    const instancesBefore = getInstances().length;
+    const getWs = (i: number) => getInstances()[instancesBefore + i];
+    const wkim = WKIM.init(['ws://a:5100', 'ws://b:5100'], { uid: 'testUser', token: 'testToken' });
+    const connectHandler = vi.fn();
+    wkim.on(Event.Connect, connectHandler);
+
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getWs(0).url).toBe('ws://a:5100');
+    await openAndAuth(getWs(0));
+    await connectPromise;
+    expect(connectHandler).toHaveBeenLastCalledWith(expect.objectContaining({ endpoint: 'ws://a:5100' }));
+
+    getWs(0).simulateClose(1006, 'Node down');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getWs(1).url).toBe('ws://a:5100');
+
+    getWs(1).simulateClose(1006, 'Still down');
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(getWs(2).url).toBe('ws://b:5100');
+    await openAndAuth(getWs(2));
+
+    expect(wkim.endpoint).toBe('ws://b:5100');
+    expect(connectHandler).toHaveBeenLastCalledWith(expect.objectContaining({ endpoint: 'ws://b:5100' }));
+    wkim.destroy();
+  });
+
+  it('uses resolveUrl and falls back to the last good endpoint when it fails', async () => {
+    vi.useFakeTimers();
+    const instancesBefore = getInstances().length;
+    const getWs = (i: number) => getInstances()[instancesBefore + i];
+    const resolveUrl = vi.fn()
+      .mockResolvedValueOnce('ws://routed:5100')
+      .mockRejectedValueOnce(new Error('route API down'));
+    const wkim = WKIM.init('', { uid: 'testUser', token: 'testToken' }, { resolveUrl });
+
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(resolveUrl).toHaveBeenCalledWith(0);
+    expect(getWs(0).url).toBe('ws://routed:5100');
+    await openAndAuth(getWs(0));
+    await connectPromise;
+
+    getWs(0).simulateClose(1006, 'Node down');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(resolveUrl).toHaveBeenLastCalledWith(1);
+    expect(getWs(1).url).toBe('ws://routed:5100');
+    wkim.destroy();
+  });
+
+  it('init() requires a URL unless resolveUrl is given', () => {
+    expect(() => WKIM.init([], { uid: 'u', token: 't' })).toThrow('URL, uid, and token are required');
+    expect(() => WKIM.init('', { uid: 'u', token: 't' }, { resolveUrl: () => 'ws://x' })).not.toThrow();
+  });
+});
+
+// ===== Binary Protocol Tests =====
+
+describe('Binary protocol', () => {
+  /** Wrap a wkproto body in a frame (bodies here are < 128 bytes). */
+  function frame(packetType: number, flags: number, body: number[]): ArrayBuffer {
+    return new Uint8Array([(packetType << 4) | flags, body.length, ...body]).buffer;
+  }
+
+  function str(value: string): number[] {
+    const bytes = Array.from(new TextEncoder().encode(value));
+    return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+  }
+
+  const zero64 = [0, 0, 0, 0, 0, 0, 0, 0];
+
+  it('connects, sends and receives over wkproto frames', async () => {
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { protocol: Protocol.Binary });
+    const connectPromise = wkim.connect();
+    await vi.waitFor(() => expect(getInstances()[instancesBefore]).toBeDefined());
+    const ws = getInstances()[instancesBefore];
+    ws.simulateOpen();
+
+    await vi.waitFor(() => expect(ws.sentMessages.length).toBe(1));
+    const connectFrame = new Uint8Array(ws.sentMessages[0] as unknown as ArrayBuffer);
+    expect(connectFrame[0] >> 4).toBe(PacketType.CONNECT);
+    ws.onmessage!({ data: frame(PacketType.CONNACK, 0, [...zero64, ReasonCode.Success, ...str('k'), ...str('s')]) });
+    await connectPromise;
+    expect(wkim.state).toBe(ConnectionState.Connected);
+
+    const sendPromise = wkim.send('friend', ChannelType.Person, { text: 'hi' });
+    const sendFrame = new Uint8Array(ws.sentMessages[1] as unknown as ArrayBuffer);
+    expect(sendFrame[0] >> 4).toBe(PacketType.SEND);
+    ws.onmessage!({ data: frame(PacketType.SENDACK, 0, [0, 0, 0, 0, 0, 0, 0, 99, 0, 0, 0, 1, ...str(''), 0, 0, 0, 5, ReasonCode.Success]) });
+    await expect(sendPromise).resolves.toEqual({ messageId: '99', messageSeq: 5, reasonCode: ReasonCode.Success });
+
+    const messageHandler = vi.fn();
+    wkim.on(Event.Message, messageHandler);
+    const payload = Array.from(new TextEncoder().encode(JSON.stringify({ text: 'yo' })));
+    ws.onmessage!({
+      data: frame(PacketType.RECV, 0, [
+        0, ...str(''), ...str('friend'), ...str('friend'), ChannelType.Person, 0, 0, 0, 0, ...str('n1'),
+        0, 0, 0, 0, 0, 0, 0, 100, 0, 0, 0, 6, 0, 0, 0, 1, ...payload,
+      ]),
+    });
+    expect(messageHandler).toHaveBeenCalledWith(expect.objectContaining({
+      fromUid: 'friend',
+      messageId: '100',
+      messageSeq: 6,
+      payload: { text: 'yo' },
+    }));
+    const recvAck = new Uint8Array(ws.sentMessages[2] as unknown as ArrayBuffer);
+    expect(recvAck[0] >> 4).toBe(PacketType.RECVACK);
+
+    wkim.destroy();
+  });
+});
+
+// ===== Secure Mode Tests =====
+
+describe('Secure mode', () => {
+  const salt = '0123456789abcdefXYZ';
+
+  /** Connect with encryption enabled and answer as a server holding `serverKeys`. */
+  async function connectSecure() {
+    const serverKeys = generateKeyPair();
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { encryption: true });
+    const connectPromise = wkim.connect();
+    await vi.waitFor(() => expect(getInstances()[instancesBefore]).toBeDefined());
+    const ws = getInstances()[instancesBefore];
+    ws.simulateOpen();
+    await vi.waitFor(() => expect(ws.findSentMessage('connect')).toBeTruthy());
+
+    const connectMsg = ws.findSentMessage('connect');
+    const server = new SecureSession(serverKeys);
+    server.establish(connectMsg.params.clientKey, salt);
+    ws.simulateMessage(JSON.stringify({
+      id: connectMsg.id,
+      result: { serverKey: Buffer.from(serverKeys.publicKey).toString('base64'), salt, timeDiff: 0, reasonCode: 1 },
+    }));
+    await connectPromise;
+    return { wkim, ws, server };
+  }
+
+  function encryptedRecv(server: SecureSession, payload: object, tamper = false) {
+    const encrypted = server.encrypt(JSON.stringify(payload));
+    const params = {
+      header: {}, messageId: '100', messageSeq: 1, clientMsgNo: 'n1', timestamp: 1700000000,
+      fromUid: 'friend', channelId: 'friend', channelType: ChannelType.Person,
+      payload: Buffer.from(encrypted).toString('base64'),
+    };
+    const sign = `${params.messageId}${params.messageSeq}${params.clientMsgNo}${params.timestamp}`
+      + `${params.fromUid}${params.channelId}${params.channelType}${encrypted}`;
+    return { ...params, msgKey: tamper ? server.msgKey(sign + 'x') : server.msgKey(sign) };
+  }
+
+  it('sends clientKey and encrypts outgoing payloads with a verifiable msgKey', async () => {
+    const { wkim, ws, server } = await connectSecure();
+
+    wkim.send('friend', ChannelType.Person, { text: 'secret' }).catch(() => {});
+    const sendMsg = ws.findSentMessage('send');
+    const encrypted = Buffer.from(sendMsg.params.payload, 'base64').toString();
+    expect(new TextDecoder().decode(server.decrypt(encrypted))).toBe(JSON.stringify({ text: 'secret' }));
+
+    const { clientSeq, clientMsgNo, channelId, channelType } = sendMsg.params;
+    expect(sendMsg.params.msgKey).toBe(server.msgKey(`${clientSeq}${clientMsgNo}${channelId}${channelType}${encrypted}`));
+    wkim.destroy();
+  });
+
+  it('verifies and decrypts incoming messages', async () => {
+    const { wkim, ws, server } = await connectSecure();
+    const messageHandler = vi.fn();
+    wkim.on(Event.Message, messageHandler);
+
+    ws.simulateMessage(JSON.stringify({ method: 'recv', params: encryptedRecv(server, { text: 'hello' }) }));
+
+    expect(messageHandler).toHaveBeenCalledWith(expect.objectContaining({ messageId: '100', payload: { text: 'hello' } }));
+    wkim.destroy();
+  });
+
+  it('drops messages whose msgKey does not verify and reports MsgKeyError', async () => {
+    const { wkim, ws, server } = await connectSecure();
+    const messageHandler = vi.fn();
+    const errorHandler = vi.fn();
+    wkim.on(Event.Message, messageHandler);
+    wkim.on(Event.Error, errorHandler);
+
+    ws.simulateMessage(JSON.stringify({ method: 'recv', params: encryptedRecv(server, { text: 'forged' }, true) }));
+
+    expect(messageHandler).not.toHaveBeenCalled();
+    expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({ code: ReasonCode.MsgKeyError, messageId: '100' }));
+    expect(ws.findSentMessage('recvack')).toBeTruthy();
+    wkim.destroy();
+  });
+
+  it('fails the connect when the server returns no usable key', async () => {
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { encryption: true });
+    const connectPromise = wkim.connect();
+    await vi.waitFor(() => expect(getInstances()[instancesBefore]).toBeDefined());
+    const ws = getInstances()[instancesBefore];
+    ws.simulateOpen();
+    await vi.waitFor(() => expect(ws.findSentMessage('connect')).toBeTruthy());
+    ws.simulateAuthSuccess();
+
+    await expect(connectPromise).rejects.toThrow('Secure handshake failed');
+    wkim.destroy();
+  });
+
+  it('refuses to initialize without a secure random source, and accepts an injected one', async () => {
+    vi.stubGlobal('crypto', undefined);
+    vi.stubGlobal('require', undefined);
+    try {
+      expect(() => WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { encryption: true }))
+        .toThrow('Secure mode requires a cryptographically secure random source');
+
+      const randomSource = vi.fn((bytes: Uint8Array) => { nodeRandomFill(bytes); });
+      const { wkim, getWs } = createInstance({ encryption: true, randomSource });
+      wkim.connect().catch(() => {});
+      await vi.waitFor(() => expect(getWs()).toBeDefined());
+      getWs().simulateOpen();
+      await vi.waitFor(() => expect(getWs().findSentMessage('connect')).toBeTruthy());
+      expect(randomSource).toHaveBeenCalled();
+      expect(getWs().findSentMessage('connect').params.clientKey).toMatch(/^[A-Za-z0-9+/]{43}=$/);
+      wkim.destroy();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+// ===== Custom WebSocket Factory Tests =====
+
+describe('Custom WebSocket factory', () => {
+  it('uses webSocketFactory instead of platform detection', async () => {
+    const instancesBefore = getInstances().length;
+    const created: MockWebSocket[] = [];
+    const webSocketFactory = vi.fn((url: string) => {
+      const ws = new MockWebSocket(url, false);
+      created.push(ws);
+      return ws;
+    });
+    const wkim = WKIM.init('ws://custom:5100', { uid: 'testUser', token: 'testToken' }, { webSocketFactory });
+
+    const connectPromise = wkim.connect();
+    expect(webSocketFactory).toHaveBeenCalledWith('ws://custom:5100');
+    expect(getInstances().length).toBe(instancesBefore);
+
+    created[0].simulateOpen();
+    await vi.waitFor(() => expect(created[0].findSentMessage('connect')).toBeTruthy());
+    created[0].simulateAuthSuccess();
+    await connectPromise;
+
+    expect(wkim.state).toBe(ConnectionState.Connected);
+    wkim.destroy();
+  });
+});
+
+// ===== Kick / Server Disconnect Tests =====
+
+describe('Server disconnect handling', () => {
+  it('classifies reason codes as retryable or fatal', () => {
+    expect(isRetryableReasonCode(ReasonCode.ConnectKick)).toBe(false);
+    expect(isRetryableReasonCode(ReasonCode.Ban)).toBe(false);
+    expect(isRetryableReasonCode(ReasonCode.AuthFail)).toBe(false);
+    expect(isRetryableReasonCode(ReasonCode.SystemError)).toBe(true);
+    expect(isRetryableReasonCode(ReasonCode.RateLimit)).toBe(true);
+    expect(isRetryableReasonCode(99)).toBe(true);
+  });
+
+  it('emits Kicked and does not reconnect on ConnectKick', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    vi.useFakeTimers();
+    const kickedHandler = vi.fn();
+    const reconnectingHandler = vi.fn();
+    wkim.on(Event.Kicked, kickedHandler);
+    wkim.on(Event.Reconnecting, reconnectingHandler);
+    const instancesBefore = getInstances().length;
+
+    ws.simulateMessage(JSON.stringify({
+      method: 'disconnect',
+      params: { reasonCode: ReasonCode.ConnectKick, reason: 'Signed in on another device' },
+    }));
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(kickedHandler).toHaveBeenCalledWith({ reasonCode: ReasonCode.ConnectKick, reason: 'Signed in on another device' });
+    expect(reconnectingHandler).not.toHaveBeenCalled();
+    expect(getInstances().length).toBe(instancesBefore);
+    expect(wkim.state).toBe(ConnectionState.Disconnected);
+    wkim.destroy();
+  });
+
+  it('emits AuthExpired instead of Kicked on AuthFail', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const kickedHandler = vi.fn();
+    const authExpiredHandler = vi.fn();
+    wkim.on(Event.Kicked, kickedHandler);
+    wkim.on(Event.AuthExpired, authExpiredHandler);
+
+    ws.simulateMessage(JSON.stringify({ method: 'disconnect', params: { reasonCode: ReasonCode.AuthFail, reason: 'Token expired' } }));
+
+    expect(authExpiredHandler).toHaveBeenCalledWith({ reasonCode: ReasonCode.AuthFail, reason: 'Token expired' });
+    expect(kickedHandler).not.toHaveBeenCalled();
+    wkim.destroy();
+  });
+
+  it('reconnects after a retryable server disconnect', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    vi.useFakeTimers();
+    const reconnectingHandler = vi.fn();
+    wkim.on(Event.Reconnecting, reconnectingHandler);
+    const instancesBefore = getInstances().length;
+
+    ws.simulateMessage(JSON.stringify({ method: 'disconnect', params: { reasonCode: ReasonCode.SystemError, reason: 'Node restarting' } }));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(reconnectingHandler).toHaveBeenCalledWith({ attempt: 1, delay: 1000 });
+    expect(getInstances().length).toBe(instancesBefore + 1);
+    wkim.destroy();
+  });
+
+  it('stops an ongoing reconnection loop when the server refuses with a fatal code', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    vi.useFakeTimers();
+    const kickedHandler = vi.fn();
+    wkim.on(Event.Kicked, kickedHandler);
+    const instancesBefore = getInstances().length;
+
+    ws.simulateClose(1006, 'Network blip');
+    await vi.advanceTimersByTimeAsync(1000);
+    const ws2 = getInstances()[instancesBefore];
+    ws2.simulateOpen();
+    ws2.simulateAuthFailure(ReasonCode.Ban, 'Banned');
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(kickedHandler).toHaveBeenCalledWith({ reasonCode: ReasonCode.Ban, reason: 'Banned' });
+    expect(getInstances().length).toBe(instancesBefore + 1);
+    expect(wkim.state).toBe(ConnectionState.Disconnected);
+    wkim.destroy();
+  });
+});
+
+// ===== Clock Sync Tests =====
+
+describe('Server clock sync', () => {
+  async function connectWithTimeDiff(timeDiff: number) {
+    const { wkim, getWs } = createInstance();
+    const skewHandler = vi.fn();
+    wkim.on(Event.ClockSkew, skewHandler);
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = getWs();
+    ws.simulateOpen();
+    const connectMsg = ws.findSentMessage('connect');
+    ws.simulateMessage(JSON.stringify({
+      id: connectMsg.id,
+      result: { serverKey: '', salt: '', timeDiff, reasonCode: ReasonCode.Success },
+    }));
+    await connectPromise;
+    return { wkim, ws, skewHandler };
+  }
+
+  it('exposes the handshake offset through serverNow() and toLocalTime()', async () => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    const { wkim, skewHandler } = await connectWithTimeDiff(60_000);
+
+    expect(wkim.clockOffset).toBe(60_000);
+    expect(wkim.serverNow()).toBe(Date.now() + 60_000);
+    expect(wkim.toLocalTime(1_700_000_060)).toBe(1_700_000_000_000);
+    expect(skewHandler).toHaveBeenCalledWith({ offset: 60_000, previousOffset: 0, rtt: 0 });
+    wkim.destroy();
+  });
+
+  it('does not report small offsets', async () => {
+    vi.useFakeTimers();
+    const { wkim, skewHandler } = await connectWithTimeDiff(300);
+    expect(wkim.clockOffset).toBe(300);
+    expect(skewHandler).not.toHaveBeenCalled();
+    wkim.destroy();
+  });
+
+  it('keeps the handshake offset across pongs, which carry no server time', async () => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    const { wkim, ws, skewHandler } = await connectWithTimeDiff(5_000);
+    skewHandler.mockClear();
+
+    await vi.advanceTimersByTimeAsync(25_000);
+    const ping = ws.sentMessages.map(m => JSON.parse(m)).find(m => m.method === 'ping');
+    expect(ping).toBeTruthy();
+    ws.simulateMessage(JSON.stringify({ id: ping.id, result: null }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(wkim.clockOffset).toBe(5_000);
+    expect(skewHandler).not.toHaveBeenCalled();
+    wkim.destroy();
+  });
+});
+
+// ===== Cancellation and Timeout Tests =====
+
+describe('AbortSignal and timeoutMs', () => {
+  it('rejects an in-flight send with AbortError and forgets the pending request', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    vi.useFakeTimers();
+    const controller = new AbortController();
+
+    const sendPromise = wkim.send('friend', ChannelType.Person, { text: 'hi' }, { signal: controller.signal });
+    const sendMsg = ws.findSentMessage('send');
+    controller.abort();
+
+    await expect(sendPromise).rejects.toMatchObject({ name: 'AbortError' });
+    expect((wkim as any).pendingRequests.size).toBe(0);
+    expect(vi.getTimerCount()).toBe(0); // The request's timeout timer was cleared
+
+    // A late ack for the aborted request is ignored
+    ws.simulateMessage(JSON.stringify({ id: sendMsg.id, result: { messageId: '1', messageSeq: 1, reasonCode: 1 } }));
+    wkim.destroy();
+  });
+
+  it('rejects immediately when the signal is already aborted', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const before = ws.sentMessages.length;
+
+    await expect(wkim.send('friend', ChannelType.Person, { text: 'hi' }, { signal: AbortSignal.abort() }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(ws.sentMessages.length).toBe(before);
+    wkim.destroy();
+  });
+
+  it('honours a per-call timeoutMs', async () => {
+    const { wkim } = await createConnectedInstance();
+    vi.useFakeTimers();
+
+    const sendPromise = wkim.send('friend', ChannelType.Person, { text: 'slow' }, { timeoutMs: 60_000 });
+    const assertion = expect(sendPromise).rejects.toThrow('Request timeout for method send');
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect((wkim as any).pendingRequests.size).toBe(1);
+    await vi.advanceTimersByTimeAsync(45_000);
+    await assertion;
+    wkim.destroy();
+  });
+
+  it('supports signal and timeoutMs on subscribe() without remembering them for replay', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const controller = new AbortController();
+
+    const subscribePromise = wkim.subscribe('live_1', ChannelType.Live, { param: 'p', signal: controller.signal });
+    controller.abort();
+
+    await expect(subscribePromise).rejects.toMatchObject({ name: 'AbortError' });
+    expect(ws.findSentMessage('subscribe').params.param).toBe('p');
+    wkim.destroy();
+  });
+
+  it('removes an aborted message from the outbox', async () => {
+    vi.useFakeTimers();
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { outbox: true });
+    const controller = new AbortController();
+
+    const sendPromise = wkim.send('friend', ChannelType.Person, { text: 'queued' }, { signal: controller.signal });
+    expect((wkim as any).outbox).toHaveLength(1);
+    controller.abort();
+
+    await expect(sendPromise).rejects.toMatchObject({ name: 'AbortError' });
+    expect((wkim as any).outbox).toHaveLength(0);
+    expect(vi.getTimerCount()).toBe(0);
+    wkim.destroy();
+  });
+});
+
+// ===== Receive Acknowledgement Mode Tests =====
+
+describe('Ack modes', () => {
+  function recvNotification(messageId: string, messageSeq: number) {
+    return JSON.stringify({
+      method: 'recv',
+      params: {
+        header: {}, messageId, messageSeq, timestamp: 1700000000,
+        channelId: 'g1', channelType: ChannelType.Group, fromUid: 'friend', payload: toBase64({ text: 'x' }),
+      },
+    });
+  }
+
+  function recvAcks(ws: MockWebSocket) {
+    return ws.sentMessages.map(m => JSON.parse(m)).filter(m => m.method === 'recvack');
+  }
+
+  async function connectWith(options: object) {
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, options);
+    const connectPromise = wkim.connect();
+    await vi.waitFor(() => expect(getInstances()[instancesBefore]).toBeDefined());
+    const ws = getInstances()[instancesBefore];
+    ws.simulateOpen();
+    await vi.waitFor(() => expect(ws.findSentMessage('connect')).toBeTruthy());
+    ws.simulateAuthSuccess();
+    await connectPromise;
+    return { wkim, ws };
+  }
+
+  it('auto mode acknowledges right after the listeners ran and sets no ack()', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const messageHandler = vi.fn();
+    wkim.on(Event.Message, messageHandler);
+
+    ws.simulateMessage(recvNotification('1', 1));
+
+    expect(messageHandler.mock.calls[0][0].ack).toBeUndefined();
+    expect(recvAcks(ws)).toHaveLength(1);
+    wkim.destroy();
+  });
+
+  it('manual mode acknowledges only when ack() is called, once', async () => {
+    const { wkim, ws } = await connectWith({ ackMode: 'manual' });
+    let received: any;
+    wkim.on(Event.Message, (message) => { received = message; });
+
+    ws.simulateMessage(recvNotification('7', 3));
+    expect(recvAcks(ws)).toHaveLength(0);
+
+    received.ack();
+    received.ack();
+    expect(recvAcks(ws)).toEqual([expect.objectContaining({ params: { header: {}, messageId: '7', messageSeq: 3 } })]);
+    wkim.destroy();
+  });
+
+  it('batched mode coalesces acks over the window and dedupes redeliveries', async () => {
+    const { wkim, ws } = await connectWith({ ackMode: 'batched', ackBatchWindow: 50 });
+    vi.useFakeTimers();
+
+    ws.simulateMessage(recvNotification('1', 1));
+    ws.simulateMessage(recvNotification('2', 2));
+    ws.simulateMessage(recvNotification('2', 2));
+    expect(recvAcks(ws)).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(recvAcks(ws).map(ack => ack.params.messageId)).toEqual(['1', '2']);
+    wkim.destroy();
+  });
+
+  it('batched mode flushes pending acks on a graceful disconnect', async () => {
+    const { wkim, ws } = await connectWith({ ackMode: 'batched' });
+    ws.simulateMessage(recvNotification('9', 9));
+
+    wkim.disconnect();
+
+    expect(recvAcks(ws).map(ack => ack.params.messageId)).toEqual(['9']);
+    wkim.destroy();
+  });
+
+  it('batched mode sends all acks in one binary frame', async () => {
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { protocol: Protocol.Binary, ackMode: 'batched' });
+    const connectPromise = wkim.connect();
+    await vi.waitFor(() => expect(getInstances()[instancesBefore]).toBeDefined());
+    const ws = getInstances()[instancesBefore];
+    ws.simulateOpen();
+    await vi.waitFor(() => expect(ws.sentMessages.length).toBe(1));
+    ws.onmessage!({ data: new Uint8Array([PacketType.CONNACK << 4, 13, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0]).buffer });
+    await connectPromise;
+    vi.useFakeTimers();
+
+    const recvFrame = (seq: number) => new Uint8Array([
+      PacketType.RECV << 4, 35,
+      0, 0, 0, 0, 1, 0x61, 0, 1, 0x62, ChannelType.Person, 0, 0, 0, 0, 0, 0,
+      0, 0, 0, 0, 0, 0, 0, seq, 0, 0, 0, seq, 0, 0, 0, 1, 0x7b, 0x7d, 0x20,
+    ]).buffer;
+    ws.onmessage!({ data: recvFrame(1) });
+    ws.onmessage!({ data: recvFrame(2) });
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(ws.sentMessages).toHaveLength(2);
+    const batch = new Uint8Array(ws.sentMessages[1] as unknown as ArrayBuffer);
+    // Two RECVACK frames (1 header + 1 length + 12 body bytes each)
+    expect(batch.length).toBe(28);
+    expect(batch[0] >> 4).toBe(PacketType.RECVACK);
+    expect(batch[14] >> 4).toBe(PacketType.RECVACK);
+    wkim.destroy();
+  });
+});
+
+// ===== Typed Events Tests =====
+
+describe('Typed events', () => {
+  const recvMessage = (messageId: string) => JSON.stringify({
+    method: 'recv',
+    params: {
+      header: {},
+      messageId,
+      messageSeq: 1,
+      timestamp: Date.now(),
+      channelId: 'chan1',
+      channelType: 1,
+      fromUid: 'sender1',
+      payload: toBase64({ text: 'hello' }),
+    },
+  });
+
+  it('on() returns a function that removes the listener', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const handler = vi.fn();
+    const unsubscribe = wkim.on(Event.Message, handler);
+
+    ws.simulateMessage(recvMessage('m1'));
+    unsubscribe();
+    ws.simulateMessage(recvMessage('m2'));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    wkim.destroy();
+  });
+
+  it('once() fires a single time', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const handler = vi.fn();
+    wkim.once(Event.Message, handler);
+
+    ws.simulateMessage(recvMessage('m1'));
+    ws.simulateMessage(recvMessage('m2'));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'm1' }));
+    wkim.destroy();
+  });
+
+  it('off() with the original callback removes a once() listener', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const handler = vi.fn();
+    wkim.once(Event.Message, handler);
+    wkim.off(Event.Message, handler);
+
+    ws.simulateMessage(recvMessage('m1'));
+
+    expect(handler).not.toHaveBeenCalled();
+    wkim.destroy();
+  });
+
+  it('waitFor() resolves with the first payload matching the predicate', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const waiting = wkim.waitFor(Event.Message, message => message.messageId === 'm2');
+
+    ws.simulateMessage(recvMessage('m1'));
+    ws.simulateMessage(recvMessage('m2'));
+
+    await expect(waiting).resolves.toMatchObject({ messageId: 'm2' });
+    expect((wkim as any).eventListeners.get(Event.Message)).toHaveLength(0);
+    wkim.destroy();
+  });
+
+  it('waitFor() rejects and unsubscribes after timeoutMs', async () => {
+    const { wkim } = await createConnectedInstance();
+    vi.useFakeTimers();
+
+    const waiting = wkim.waitFor(Event.Kicked, undefined, 1000);
+    const assertion = expect(waiting).rejects.toThrow('Timed out after 1000ms waiting for event kicked');
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    expect((wkim as any).eventListeners.get(Event.Kicked)).toHaveLength(0);
+    wkim.destroy();
+  });
+
+  it('wildcard listeners receive every event with its name', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const wildcard = vi.fn();
+    wkim.on('*', wildcard);
+
+    ws.simulateMessage(recvMessage('m1'));
+    wkim.off('*', wildcard);
+    ws.simulateMessage(recvMessage('m2'));
+
+    expect(wildcard.mock.calls.map(call => call[0])).toEqual([Event.Message, Event.ConversationUpdate]);
+    expect(wildcard).toHaveBeenCalledWith(Event.Message, expect.objectContaining({ messageId: 'm1' }));
+    wkim.destroy();
+  });
+
+  it('emits SendAck when a send is acknowledged', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const handler = vi.fn();
+    wkim.on(Event.SendAck, handler);
+
+    const sendPromise = wkim.send('friend', ChannelType.Person, { text: 'hi' });
+    const sendMsg = ws.findSentMessage('send');
+    ws.simulateMessage(JSON.stringify({ id: sendMsg.id, result: { messageId: '7', messageSeq: 3, reasonCode: 1 } }));
+    await sendPromise;
+
+    expect(handler).toHaveBeenCalledWith({
+      messageId: '7',
+      messageSeq: 3,
+      reasonCode: 1,
+      clientMsgNo: sendMsg.params.clientMsgNo,
+      channelId: 'friend',
+      channelType: ChannelType.Person,
+    });
+    wkim.destroy();
+  });
+});
+
+// ===== Logger Tests =====
+
+describe('Logger', () => {
+  function connectWithLogger(options: Record<string, unknown>) {
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, options);
+    const connectPromise = wkim.connect();
+    return { wkim, connectPromise, getWs: () => getInstances()[instancesBefore] };
+  }
+
+  it('routes output through the configured logger with tokens redacted', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const { wkim, connectPromise, getWs } = connectWithLogger({ logger, logLevel: 'debug' });
+    await vi.waitFor(() => expect(getWs()).toBeDefined());
+    const ws = getWs();
+    ws.simulateOpen();
+    await vi.waitFor(() => expect(ws.findSentMessage('connect')).toBeTruthy());
+    ws.simulateAuthSuccess();
+    await connectPromise;
+
+    const logged = JSON.stringify([...logger.debug.mock.calls, ...logger.info.mock.calls]);
+    expect(logged).toContain('Sending request');
+    expect(logged).not.toContain('testToken');
+    wkim.destroy();
+  });
+
+  it('defaults to warn level and never calls console.log/debug', async () => {
+    const log = vi.spyOn(console, 'log');
+    const debug = vi.spyOn(console, 'debug');
+    const info = vi.spyOn(console, 'info');
+
+    const { wkim } = await createConnectedInstance();
+    wkim.disconnect();
+
+    expect(log).not.toHaveBeenCalled();
+    expect(debug).not.toHaveBeenCalled();
+    expect(info).not.toHaveBeenCalled();
+    wkim.destroy();
+  });
+
+  it('stays silent with logLevel "silent"', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { logger, logLevel: 'silent' });
+    wkim.on(Event.Message, () => { throw new Error('listener failure'); });
+    (wkim as any).emit(Event.Message, {});
+
+    expect(logger.error).not.toHaveBeenCalled();
+    wkim.destroy();
+  });
+});
+
+// ===== Stats Tests =====
+
+describe('getStats', () => {
+  it('counts sends, acks, received messages and bytes', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+
+    const sendPromise = wkim.send('friend', ChannelType.Person, { text: 'hi' });
+    expect(wkim.getStats().pendingRequests).toBe(1);
+    const sendMsg = ws.findSentMessage('send');
+    const ack = JSON.stringify({ id: sendMsg.id, result: { messageId: '1', messageSeq: 1, reasonCode: 1 } });
+    ws.simulateMessage(ack);
+    await sendPromise;
+
+    const recv = JSON.stringify({
+      method: 'recv',
+      params: {
+        header: {}, messageId: 'm1', messageSeq: 1, timestamp: 1, channelId: 'g1',
+        channelType: ChannelType.Group, fromUid: 'bob', payload: toBase64({ text: 'yo' }),
+      },
+    });
+    ws.simulateMessage(recv);
+
+    const stats = wkim.getStats();
+    expect(stats.messages).toMatchObject({ sent: 1, acked: 1, received: 1 });
+    expect(stats.messages.byChannelType[ChannelType.Person]).toEqual({ sent: 1, received: 0, acked: 1 });
+    expect(stats.messages.byChannelType[ChannelType.Group]).toEqual({ sent: 0, received: 1, acked: 0 });
+    expect(stats.sendLatency.count).toBe(1);
+    expect(stats.pendingRequests).toBe(0);
+    expect(stats.bytesOut).toBe(ws.sentMessages.reduce((sum, frame) => sum + frame.length, 0));
+    expect(stats.bytesIn).toBeGreaterThanOrEqual(ack.length + recv.length);
+    wkim.destroy();
+  });
+
+  it('records ping round trips', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    vi.useFakeTimers();
+    (wkim as any).startPing(); // Re-arm the ping interval under fake timers
+
+    await vi.advanceTimersByTimeAsync(25_000);
+    const pings = ws.sentMessages.map(frame => JSON.parse(frame)).filter(message => message.method === 'ping');
+    await vi.advanceTimersByTimeAsync(40);
+    ws.simulateMessage(JSON.stringify({ id: pings[pings.length - 1].id, result: null }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(wkim.getStats().pingRtt).toMatchObject({ count: 1, last: 40 });
+    wkim.destroy();
+  });
+
+  it('measures the outage across failed reconnect attempts', async () => {
+    vi.useFakeTimers();
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, {});
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    getInstances()[instancesBefore].simulateOpen();
+    await vi.advanceTimersByTimeAsync(0);
+    getInstances()[instancesBefore].simulateAuthSuccess();
+    await connectPromise;
+
+    getInstances()[instancesBefore].simulateClose(1006, 'Abnormal closure');
+    await vi.advanceTimersByTimeAsync(1000);
+    getInstances()[instancesBefore + 1].simulateClose(1006, 'Still down');
+    await vi.advanceTimersByTimeAsync(2000);
+    const ws = getInstances()[instancesBefore + 2];
+    ws.simulateOpen();
+    await vi.advanceTimersByTimeAsync(0);
+    ws.simulateAuthSuccess();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(wkim.state).toBe(ConnectionState.Connected);
+    expect(wkim.getStats().reconnects).toMatchObject({
+      attempts: 2,
+      successes: 1,
+      lastDurationMs: 3000,
+      currentOutageMs: null,
+    });
+    wkim.destroy();
+  });
+
+  it('keeps the last error and resets on demand', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    ws.simulateMessage('not json');
+
+    expect(wkim.getStats().lastError?.message).toContain('Failed to parse message');
+    const before = wkim.getStats().since;
+
+    wkim.resetStats();
+    const stats = wkim.getStats();
+    expect(stats.lastError).toBeNull();
+    expect(stats.bytesIn).toBe(0);
+    expect(stats.since).toBeGreaterThanOrEqual(before);
+    wkim.destroy();
+  });
+
+  it('emits Event.Stats every statsInterval ms until disconnect', async () => {
+    vi.useFakeTimers();
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { statsInterval: 1000 });
+    const handler = vi.fn();
+    wkim.on(Event.Stats, handler);
+    wkim.connect().catch(() => {});
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler.mock.calls[0][0]).toMatchObject({ messages: { sent: 0 }, bytesIn: 0 });
+
+    wkim.disconnect();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(handler).toHaveBeenCalledTimes(2);
+    wkim.destroy();
+  });
+});
+
+// ===== Streaming Tests =====
+
+describe('Streaming messages', () => {
+  it('openStream() sends chunks with setting.stream, streamNo and streamFlag', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const writer = wkim.openStream('ai_chat', ChannelType.Person, { streamNo: 'stream-1' });
+
+    writer.write('Hel').catch(() => {});
+    writer.end('lo').catch(() => {});
+
+    const sends = ws.sentMessages.map(frame => JSON.parse(frame)).filter(message => message.method === 'send');
+    expect(sends).toHaveLength(2);
+    expect(sends[0].params).toMatchObject({ channelId: 'ai_chat', streamNo: 'stream-1', streamFlag: 0, setting: { stream: true } });
+    expect(sends[1].params).toMatchObject({ streamNo: 'stream-1', streamFlag: 2 });
+    expect(JSON.parse(atob(sends[0].params.payload))).toEqual({ content: 'Hel' });
+    wkim.destroy();
+  });
+
+  it('assembles received chunks into Stream events instead of Message events', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const onMessage = vi.fn();
+    const onDelta = vi.fn();
+    wkim.on(Event.Message, onMessage);
+    wkim.on(Event.StreamDelta, onDelta);
+    const ended = wkim.waitFor(Event.StreamEnd);
+
+    const recv = (streamId: number, streamFlag: number, content: string) => JSON.stringify({
+      method: 'recv',
+      params: {
+        header: {}, setting: { stream: true }, messageId: `m${streamId}`, messageSeq: streamId, timestamp: 1,
+        channelId: 'ai_chat', channelType: 1, fromUid: 'bot', streamNo: 'stream-1', streamId: String(streamId), streamFlag,
+        payload: toBase64({ content }),
+      },
+    });
+    ws.simulateMessage(recv(2, 1, ' world'));
+    ws.simulateMessage(recv(1, 0, 'hello'));
+    ws.simulateMessage(recv(3, 2, '!'));
+
+    await expect(ended).resolves.toMatchObject({ streamNo: 'stream-1', content: 'hello world!', missing: [] });
+    expect(onDelta.mock.calls.map(call => call[0].delta.content)).toEqual(['hello', ' world', '!']);
+    expect(onMessage).not.toHaveBeenCalled();
+    const acks = ws.sentMessages.map(frame => JSON.parse(frame)).filter(message => message.method === 'recvack');
+    expect(acks.map(ack => ack.params.messageId).sort()).toEqual(['m1', 'm2', 'm3']);
+    wkim.destroy();
+  });
+});
+
+// ===== Topic Tests =====
+
+describe('Topics', () => {
+  const recvOnTopic = (messageId: string, channelId: string, topic?: string) => JSON.stringify({
+    method: 'recv',
+    params: {
+      header: {}, setting: { topic: !!topic }, messageId, messageSeq: 1, timestamp: 1,
+      channelId, channelType: ChannelType.CommunityTopic, fromUid: 'alice', topic,
+      payload: toBase64({ text: 'hi' }),
+    },
+  });
+
+  it('send() sets setting.topic when a topic is given', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+
+    wkim.send('community', ChannelType.CommunityTopic, { text: 'hi' }, { topic: 'general', setting: { receipt: true } }).catch(() => {});
+    wkim.send('community', ChannelType.CommunityTopic, { text: 'no topic' }).catch(() => {});
+
+    const sends = ws.sentMessages.map(frame => JSON.parse(frame)).filter(message => message.method === 'send');
+    expect(sends[0].params).toMatchObject({ topic: 'general', setting: { receipt: true, topic: true } });
+    expect(sends[1].params.setting).toBeUndefined();
+    wkim.destroy();
+  });
+
+  it('onTopic() routes messages by channel and topic', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const general = vi.fn();
+    const random = vi.fn();
+    const onMessage = vi.fn();
+    wkim.onTopic('community', 'general', general);
+    wkim.onTopic('community', 'random', random);
+    wkim.on(Event.Message, onMessage);
+
+    ws.simulateMessage(recvOnTopic('m1', 'community', 'general'));
+    ws.simulateMessage(recvOnTopic('m2', 'other', 'general'));
+    ws.simulateMessage(recvOnTopic('m3', 'community'));
+
+    expect(general).toHaveBeenCalledTimes(1);
+    expect(general).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'm1', topic: 'general' }));
+    expect(random).not.toHaveBeenCalled();
+    expect(onMessage).toHaveBeenCalledTimes(3);
+    wkim.destroy();
+  });
+
+  it('onTopic() returns a function that removes the listener', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const handler = vi.fn();
+    const unsubscribe = wkim.onTopic('community', 'general', handler);
+
+    unsubscribe();
+    ws.simulateMessage(recvOnTopic('m1', 'community', 'general'));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect((wkim as any).topicListeners.size).toBe(0);
+    wkim.destroy();
+  });
+});
+
+// ===== Message Expiry Tests =====
+
+describe('Message expiry', () => {
+  const recvExpiring = (messageId: string, timestamp: number, expire: number) => JSON.stringify({
+    method: 'recv',
+    params: {
+      header: {}, messageId, messageSeq: 1, timestamp, expire,
+      channelId: 'friend', channelType: ChannelType.Person, fromUid: 'alice',
+      payload: toBase64({ text: 'burn after reading' }),
+    },
+  });
+
+  /** Connects on fake timers (so the handshake round trip is 0) to a server whose clock runs `ahead` ms ahead */
+  async function connectToServerAhead(ahead: number) {
+    vi.useFakeTimers();
+    const { wkim, getWs } = createInstance();
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = getWs();
+    ws.simulateOpen();
+    await vi.advanceTimersByTimeAsync(0);
+    ws.simulateAuthSuccess(ahead);
+    await connectPromise;
+    return { wkim, ws };
+  }
+
+  it('send() passes expire and msgKey through', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+
+    wkim.send('friend', ChannelType.Person, { text: 'secret' }, { expire: 30, msgKey: 'mk' }).catch(() => {});
+
+    expect(ws.findSentMessage('send').params).toMatchObject({ expire: 30, msgKey: 'mk' });
+    wkim.destroy();
+  });
+
+  it('computes expiresAt with the server clock offset and emits MessageExpired', async () => {
+    const { wkim, ws } = await connectToServerAhead(10_000);
+    const onMessage = vi.fn();
+    const onExpired = vi.fn();
+    wkim.on(Event.Message, onMessage);
+    wkim.on(Event.MessageExpired, onExpired);
+
+    const serverSeconds = Math.floor((Date.now() + 10_000) / 1000);
+    ws.simulateMessage(recvExpiring('m1', serverSeconds, 5));
+
+    const message = onMessage.mock.calls[0][0];
+    expect(message.expire).toBe(5);
+    expect(message.expiresAt).toBe((serverSeconds + 5) * 1000 - 10_000);
+    await vi.advanceTimersByTimeAsync(message.expiresAt - Date.now() - 1);
+    expect(onExpired).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onExpired).toHaveBeenCalledWith(message);
+    wkim.destroy();
+  });
+
+  it('computes expiresAt of sent messages with the server clock offset', async () => {
+    const { wkim, ws } = await connectToServerAhead(10_000);
+    const onExpired = vi.fn();
+    wkim.on(Event.MessageExpired, onExpired);
+
+    const sent = wkim.send('friend', ChannelType.Person, { text: 'secret' }, { expire: 30 });
+    const request = ws.findSentMessage('send');
+    ws.simulateMessage(JSON.stringify({ id: request.id, result: { messageId: 'out1', messageSeq: 1, reasonCode: ReasonCode.Success } }));
+    await sent;
+
+    const serverSeconds = Math.floor((Date.now() + 10_000) / 1000);
+    const lastMessage = wkim.conversations.get({ channelId: 'friend', channelType: ChannelType.Person })?.lastMessage;
+    expect(lastMessage?.timestamp).toBe(serverSeconds);
+    expect(lastMessage?.expiresAt).toBe((serverSeconds + 30) * 1000 - 10_000);
+    await vi.advanceTimersByTimeAsync(lastMessage!.expiresAt! - Date.now() - 1);
+    expect(onExpired).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onExpired).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'out1' }));
+    wkim.destroy();
+  });
+
+  it('acknowledges but does not deliver messages that already expired', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const onMessage = vi.fn();
+    wkim.on(Event.Message, onMessage);
+
+    ws.simulateMessage(recvExpiring('old', Math.floor(Date.now() / 1000) - 60, 10));
+
+    expect(onMessage).not.toHaveBeenCalled();
+    expect(ws.findSentMessage('recvack').params.messageId).toBe('old');
+    wkim.destroy();
+  });
+
+  it('never expires messages without expire', async () => {
+    const { wkim, ws } = await connectToServerAhead(0);
+    const onMessage = vi.fn();
+    const onExpired = vi.fn();
+    wkim.on(Event.Message, onMessage);
+    wkim.on(Event.MessageExpired, onExpired);
+
+    ws.simulateMessage(recvExpiring('m1', 1, 0));
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(onMessage.mock.calls[0][0].expiresAt).toBeUndefined();
+    expect(onExpired).not.toHaveBeenCalled();
+    wkim.destroy();
+  });
+});
+
+// ===== Deduplication Tests =====
+
+describe('Received message deduplication', () => {
+  const recv = (messageId: string, clientMsgNo: string, dup = false) => JSON.stringify({
+    method: 'recv',
+    params: {
+      header: { dup }, messageId, messageSeq: 1, timestamp: 1, clientMsgNo,
+      channelId: 'friend', channelType: ChannelType.Person, fromUid: 'alice',
+      payload: toBase64({ text: 'hi' }),
+    },
+  });
+  const recvAckIds = (ws: MockWebSocket) => ws.sentMessages
+    .map(frame => JSON.parse(frame))
+    .filter(message => message.method === 'recvack')
+    .map(message => message.params.messageId);
+
+  it('delivers a redelivered message once but acknowledges every copy', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const onMessage = vi.fn();
+    wkim.on(Event.Message, onMessage);
+
+    ws.simulateMessage(recv('m1', 'n1'));
+    ws.simulateMessage(recv('m1', 'n1', true));
+    ws.simulateMessage(recv('m2', 'n1')); // Sender retried with the same clientMsgNo
+
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(recvAckIds(ws)).toEqual(['m1', 'm1', 'm2']);
+    wkim.destroy();
+  });
+
+  it('can be disabled', async () => {
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { dedup: false });
+    const connectPromise = wkim.connect();
+    await vi.waitFor(() => expect(getInstances()[instancesBefore]).toBeDefined());
+    const ws = getInstances()[instancesBefore];
+    ws.simulateOpen();
+    await vi.waitFor(() => expect(ws.findSentMessage('connect')).toBeTruthy());
+    ws.simulateAuthSuccess();
+    await connectPromise;
+    const onMessage = vi.fn();
+    wkim.on(Event.Message, onMessage);
+
+    ws.simulateMessage(recv('m1', 'n1'));
+    ws.simulateMessage(recv('m1', 'n1', true));
+
+    expect(onMessage).toHaveBeenCalledTimes(2);
+    wkim.destroy();
+  });
+
+  it('persists seen messages per uid so dedup survives a reload', async () => {
+    const data = new Map<string, string>();
+    const storage = { getItem: (key: string) => data.get(key) ?? null, setItem: (key: string, value: string) => { data.set(key, value); } };
+    const onMessage = vi.fn();
+    const first = await createConnectedInstance({ dedup: { storage } });
+    first.wkim.on(Event.Message, onMessage);
+    first.ws.simulateMessage(recv('m1', 'n1'));
+    first.wkim.destroy(); // Flushes the cache
+
+    expect(data.has('wkim:dedup:testUser')).toBe(true);
+    const second = await createConnectedInstance({ dedup: { storage } });
+    second.wkim.on(Event.Message, onMessage);
+    second.ws.simulateMessage(recv('m1', 'n1', true));
+
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect([...recvAckIds(first.ws), ...recvAckIds(second.ws)]).toEqual(['m1', 'm1']);
+    second.wkim.destroy();
+  });
+
+  it('redelivers a message in manual ack mode until the app acknowledges it', async () => {
+    const { wkim, ws } = await createConnectedInstance({ ackMode: 'manual' });
+    const received: any[] = [];
+    wkim.on(Event.Message, message => received.push(message));
+    const onConversation = vi.fn();
+    wkim.on(Event.ConversationUpdate, onConversation);
+
+    ws.simulateMessage(recv('m1', 'n1'));
+    ws.simulateMessage(recv('m1', 'n1', true)); // Server redelivers before the app acked
+
+    expect(received).toHaveLength(2);
+    expect(onConversation).toHaveBeenCalledTimes(1); // Not counted twice
+    expect(recvAckIds(ws)).toEqual([]);
+
+    received[1].ack();
+    expect(recvAckIds(ws)).toEqual(['m1']);
+
+    ws.simulateMessage(recv('m1', 'n1', true)); // Acked now: dropped and acknowledged again
+    expect(received).toHaveLength(2);
+    expect(recvAckIds(ws)).toEqual(['m1', 'm1']);
+    wkim.destroy();
+  });
+});
+
+// ===== Sequence Gap Tests =====
+
+describe('Sequence gaps and sync', () => {
+  const recvSeq = (seq: number, channelId = 'group1') => JSON.stringify({
+    method: 'recv',
+    params: {
+      header: {}, messageId: `${channelId}-${seq}`, messageSeq: seq, timestamp: 1,
+      channelId, channelType: ChannelType.Group, fromUid: 'alice', payload: toBase64({ seq }),
+    },
+  });
+  const synced = (seq: number): any => ({
+    header: {}, messageId: `group1-${seq}`, messageSeq: seq, timestamp: 1,
+    channelId: 'group1', channelType: ChannelType.Group, fromUid: 'alice', payload: toBase64({ seq }),
+  });
+
+  it('emits SequenceGap when a channel skips sequences', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const onGap = vi.fn();
+    wkim.on(Event.SequenceGap, onGap);
+
+    ws.simulateMessage(recvSeq(1));
+    ws.simulateMessage(recvSeq(2));
+    ws.simulateMessage(recvSeq(5));
+    ws.simulateMessage(recvSeq(1, 'group2'));
+
+    expect(onGap).toHaveBeenCalledTimes(1);
+    expect(onGap).toHaveBeenCalledWith({ channel: { channelId: 'group1', channelType: ChannelType.Group }, from: 3, to: 4 });
+    wkim.destroy();
+  });
+
+  it('backfills missed ranges through syncProvider after a reconnect, in order and without acks', async () => {
+    vi.useFakeTimers();
+    const syncProvider = vi.fn(async (range: any) => (range.to !== undefined ? [synced(3), synced(2)] : [synced(6)]));
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { syncProvider });
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const first = getInstances()[instancesBefore];
+    await openAndAuth(first);
+    await connectPromise;
+    expect(syncProvider).not.toHaveBeenCalled(); // Nothing tracked yet
+
+    const delivered: number[] = [];
+    wkim.on(Event.Message, message => delivered.push(message.messageSeq));
+    first.simulateMessage(recvSeq(1));
+    first.simulateMessage(recvSeq(4));
+    first.simulateClose(1006, 'Abnormal closure');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    const second = getInstances()[instancesBefore + 1];
+    await openAndAuth(second);
+
+    const channel = { channelId: 'group1', channelType: ChannelType.Group };
+    expect(syncProvider.mock.calls.map(call => call[0])).toEqual([
+      { channel, from: 2, to: 3 },
+      { channel, from: 5 },
+    ]);
+    expect(delivered).toEqual([1, 4, 2, 3, 6]);
+    expect(second.findSentMessage('recvack')).toBeNull();
+    expect((wkim as any).sequences.gaps()).toEqual([]);
+    wkim.destroy();
+  });
+
+  it('reports a failing syncProvider as an Error event', async () => {
+    vi.useFakeTimers();
+    const syncProvider = vi.fn().mockRejectedValue(new Error('HTTP 500'));
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { syncProvider });
+    const onError = vi.fn();
+    wkim.on(Event.Error, onError);
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const first = getInstances()[instancesBefore];
+    await openAndAuth(first);
+    await connectPromise;
+    first.simulateMessage(recvSeq(1));
+    first.simulateClose(1006, 'Abnormal closure');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await openAndAuth(getInstances()[instancesBefore + 1]);
+
+    expect(syncProvider).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toBe('Message sync failed for channel group1: HTTP 500');
+    wkim.destroy();
+  });
+});
+
+// ===== Message Store Tests =====
+
+describe('Message store', () => {
+  const group = { channelId: 'group1', channelType: ChannelType.Group };
+  const recv = (seq: number, header: object = {}, extra: object = {}) => JSON.stringify({
+    method: 'recv',
+    params: {
+      header, messageId: `m${seq}`, messageSeq: seq, timestamp: 1700000000,
+      channelId: 'group1', channelType: ChannelType.Group, fromUid: 'alice', payload: toBase64({ seq }),
+      ...extra,
+    },
+  });
+
+  async function connectWithStore() {
+    const store = new MemoryMessageStore();
+    const { wkim, ws } = await createConnectedInstance({ messageStore: store });
+    return { wkim, ws, store };
+  }
+
+  it('stores received messages with decoded payloads', async () => {
+    const { wkim, ws, store } = await connectWithStore();
+    expect(wkim.messageStore).toBe(store);
+
+    ws.simulateMessage(recv(1));
+    ws.simulateMessage(recv(2));
+    ws.simulateMessage(recv(3, { noPersist: true }));
+
+    await vi.waitFor(async () => {
+      expect((await store.getMessages(group)).map(m => m.messageSeq)).toEqual([1, 2]);
+    });
+    expect(await store.get('m1')).toMatchObject({ fromUid: 'alice', timestamp: 1700000000, payload: { seq: 1 } });
+    wkim.destroy();
+  });
+
+  it('stores sent messages once the server accepts them', async () => {
+    const { wkim, ws, store } = await connectWithStore();
+
+    const sent = wkim.send('group1', ChannelType.Group, { text: 'hi' });
+    const request = ws.findSentMessage('send');
+    ws.simulateMessage(JSON.stringify({ id: request.id, result: { messageId: 'out1', messageSeq: 9, reasonCode: ReasonCode.Success } }));
+    await sent;
+
+    const rejected = wkim.send('group1', ChannelType.Group, { text: 'nope' });
+    const second = ws.sentMessages.map(m => JSON.parse(m)).filter(m => m.method === 'send')[1];
+    ws.simulateMessage(JSON.stringify({ id: second.id, result: { messageId: '', messageSeq: 0, reasonCode: ReasonCode.InBlacklist } }));
+    await rejected;
+
+    await vi.waitFor(async () => {
+      expect(await store.get('out1')).toMatchObject({
+        messageSeq: 9, clientMsgNo: request.params.clientMsgNo, fromUid: 'testUser', payload: { text: 'hi' }, outgoing: true,
+      });
+    });
+    expect((await store.getMessages(group)).map(m => m.messageId)).toEqual(['out1']);
+    wkim.destroy();
+  });
+
+  it('expires sent messages with expire like received ones', async () => {
+    const { wkim, ws, store } = await connectWithStore();
+    vi.useFakeTimers();
+    const onExpired = vi.fn();
+    wkim.on(Event.MessageExpired, onExpired);
+
+    const sent = wkim.send('group1', ChannelType.Group, { text: 'gone soon' }, { expire: 30 });
+    const request = ws.findSentMessage('send');
+    ws.simulateMessage(JSON.stringify({ id: request.id, result: { messageId: 'out1', messageSeq: 9, reasonCode: ReasonCode.Success } }));
+    await sent;
+    expect(await store.get('out1')).toMatchObject({ payload: { text: 'gone soon' }, outgoing: true });
+    expect(wkim.conversations.get(group)?.lastMessage?.messageId).toBe('out1');
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(onExpired).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'out1', fromUid: 'testUser', expire: 30, payload: { text: 'gone soon' } }));
+    expect(await store.get('out1')).toBeNull();
+    expect(await store.getMessages(group)).toEqual([]);
+    expect(wkim.conversations.get(group)?.lastMessage).toBeNull();
+    wkim.destroy();
+  });
+
+  it('does not store stream chunks', async () => {
+    const { wkim, ws, store } = await connectWithStore();
+
+    ws.simulateMessage(recv(1, {}, { setting: { stream: true }, streamNo: 's1', streamId: '0', streamFlag: 0 }));
+    ws.simulateMessage(recv(2));
+
+    await vi.waitFor(async () => {
+      expect((await store.getMessages(group)).map(m => m.messageSeq)).toEqual([2]);
+    });
+    wkim.destroy();
+  });
+
+  it('removes expired messages from the store', async () => {
+    const { wkim, ws, store } = await connectWithStore();
+    vi.useFakeTimers();
+    const now = Math.floor(Date.now() / 1000);
+
+    ws.simulateMessage(recv(1, {}, { timestamp: now, expire: 5 }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await store.get('m1')).not.toBeNull();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await store.get('m1')).toBeNull();
+    wkim.destroy();
+  });
+
+  it('reports store failures as Error events', async () => {
+    const { wkim, ws, store } = await connectWithStore();
+    vi.spyOn(store, 'put').mockRejectedValue(new Error('quota exceeded'));
+    const onError = vi.fn();
+    wkim.on(Event.Error, onError);
+
+    ws.simulateMessage(recv(1));
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+    expect(onError.mock.calls[0][0].message).toBe('Failed to store message m1: quota exceeded');
+    wkim.destroy();
+  });
+});
+
+// ===== Conversation Tests =====
+
+describe('Conversations', () => {
+  const group = { channelId: 'group1', channelType: ChannelType.Group };
+  const recv = (seq: number, header: object, fromUid = 'alice') => JSON.stringify({
+    method: 'recv',
+    params: {
+      header, messageId: `m${seq}`, messageSeq: seq, timestamp: 1700000000 + seq,
+      channelId: 'group1', channelType: ChannelType.Group, fromUid, payload: toBase64({ seq }),
+    },
+  });
+
+  it('counts received red-dot messages from others as unread and emits ConversationUpdate', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const onUpdate = vi.fn();
+    wkim.on(Event.ConversationUpdate, onUpdate);
+
+    ws.simulateMessage(recv(1, { redDot: true }));
+    ws.simulateMessage(recv(2, {}));
+    ws.simulateMessage(recv(3, { redDot: true }, 'testUser'));
+    ws.simulateMessage(recv(4, { redDot: true, noPersist: true }));
+
+    expect(onUpdate).toHaveBeenCalledTimes(3);
+    expect(wkim.conversations.get(group)).toMatchObject({ unread: 1, timestamp: 1700000003 });
+    expect(wkim.conversations.get(group)?.lastMessage).toMatchObject({ messageSeq: 3, payload: { seq: 3 } });
+
+    wkim.conversations.markRead(group);
+    expect(onUpdate).toHaveBeenLastCalledWith(expect.objectContaining({ channelId: 'group1', unread: 0 }));
+    wkim.destroy();
+  });
+
+  it('updates the last message when a sent message is accepted', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+
+    const sent = wkim.send('group1', ChannelType.Group, { text: 'hi' });
+    const request = ws.findSentMessage('send');
+    ws.simulateMessage(JSON.stringify({ id: request.id, result: { messageId: 'out1', messageSeq: 9, reasonCode: ReasonCode.Success } }));
+    await sent;
+
+    expect(wkim.conversations.get(group)).toMatchObject({ unread: 0 });
+    expect(wkim.conversations.get(group)?.lastMessage).toMatchObject({ messageId: 'out1', payload: { text: 'hi' }, outgoing: true });
+    wkim.destroy();
+  });
+
+  it('hydrates from conversationSync on connect', async () => {
+    const conversationSync = vi.fn().mockResolvedValue([{ channelId: 'group1', channelType: ChannelType.Group, unread: 5, timestamp: 1700000000 }]);
+    const { wkim, getWs } = createInstance({ conversationSync });
+    const onUpdate = vi.fn();
+    wkim.on(Event.ConversationUpdate, onUpdate);
+
+    const connectPromise = wkim.connect();
+    await vi.waitFor(() => expect(getWs()).toBeDefined());
+    getWs().simulateOpen();
+    await vi.waitFor(() => expect(getWs().findSentMessage('connect')).toBeTruthy());
+    getWs().simulateAuthSuccess();
+    await connectPromise;
+
+    await vi.waitFor(() => expect(onUpdate).toHaveBeenCalled());
+    expect(conversationSync).toHaveBeenCalledTimes(1);
+    expect(wkim.conversations.list()).toEqual([
+      { channelId: 'group1', channelType: ChannelType.Group, lastMessage: null, timestamp: 1700000000, unread: 5, muted: false },
+    ]);
+    wkim.destroy();
+  });
+
+  it('backfills only after hydrating, without counting synced messages the server already counted', async () => {
+    vi.useFakeTimers();
+    let resolveHydrate!: (items: any[]) => void;
+    const conversationSync = vi.fn()
+      .mockResolvedValueOnce([])
+      .mockImplementationOnce(() => new Promise(resolve => { resolveHydrate = resolve; }));
+    const syncedMessage = (seq: number) => ({
+      header: { redDot: true }, messageId: `m${seq}`, messageSeq: seq, timestamp: 1700000000 + seq,
+      channelId: 'group1', channelType: ChannelType.Group, fromUid: 'alice', payload: toBase64({ seq }),
+    });
+    const syncProvider = vi.fn(async () => [2, 3, 4, 5, 6].map(syncedMessage));
+    const instancesBefore = getInstances().length;
+    const wkim = WKIM.init('ws://test:5100', { uid: 'testUser', token: 'testToken' }, { syncProvider, conversationSync });
+    const connectPromise = wkim.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const first = getInstances()[instancesBefore];
+    await openAndAuth(first);
+    await connectPromise;
+    first.simulateMessage(recv(1, { redDot: true }));
+    first.simulateClose(1006, 'Abnormal closure');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await openAndAuth(getInstances()[instancesBefore + 1]);
+    expect(conversationSync).toHaveBeenCalledTimes(2);
+    expect(syncProvider).not.toHaveBeenCalled(); // Still hydrating
+
+    // The server counted seqs 2-5 as unread; only seq 6 arrived after that count
+    resolveHydrate([{ ...group, unread: 4, lastMsgSeq: 5 }]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(syncProvider).toHaveBeenCalledTimes(1);
+    expect(wkim.conversations.get(group)).toMatchObject({ unread: 5 });
+    expect(wkim.conversations.get(group)?.lastMessage?.messageSeq).toBe(6);
+    wkim.destroy();
+  });
+
+  it('reports a failing conversationSync as an Error event', async () => {
+    const { wkim, getWs } = createInstance({ conversationSync: vi.fn().mockRejectedValue(new Error('HTTP 502')) });
+    const onError = vi.fn();
+    wkim.on(Event.Error, onError);
+
+    const connectPromise = wkim.connect();
+    await vi.waitFor(() => expect(getWs()).toBeDefined());
+    getWs().simulateOpen();
+    await vi.waitFor(() => expect(getWs().findSentMessage('connect')).toBeTruthy());
+    getWs().simulateAuthSuccess();
+    await connectPromise;
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+    expect(onError.mock.calls[0][0].message).toBe('Conversation sync failed: HTTP 502');
+    wkim.destroy();
+  });
+});
+
+// ===== Read Receipt Tests =====
+
+describe('Read receipts', () => {
+  const group = { channelId: 'group1', channelType: ChannelType.Group };
+  const readEvent = (id: string, data: object) => JSON.stringify({
+    method: 'event',
+    params: { id, type: 'message.read', timestamp: Date.now(), data: JSON.stringify(data) },
+  });
+
+  it('send() sets setting.receipt when receipt is requested', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    wkim.send('group1', ChannelType.Group, { text: 'hi' }, { receipt: true, topic: 'news' }).catch(() => {});
+
+    expect(ws.findSentMessage('send').params.setting).toEqual({ receipt: true, topic: true });
+    wkim.destroy();
+  });
+
+  it('aggregates read reports per message and emits Receipt', async () => {
+    const { wkim, ws } = await createConnectedInstance();
+    const onReceipt = vi.fn();
+    wkim.on(Event.Receipt, onReceipt);
+
+    ws.simulateMessage(readEvent('e1', { ...group, messageIds: ['m1'], uid: 'bob' }));
+    ws.simulateMessage(readEvent('e2', { ...group, messageIds: ['m1'], uid: 'carol' }));
+    ws.simulateMessage(readEvent('e3', { ...group, messageIds: ['m1'], uid: 'testUser' }));
+    ws.simulateMessage(readEvent('e4', { ...group, messageIds: ['m1'], uid: 'dave' }));
+
+    expect(onReceipt).toHaveBeenCalledTimes(3);
+    expect(onReceipt).toHaveBeenLastCalledWith({ messageId: 'm1', ...group, readBy: ['bob', 'carol', 'dave'], readCount: 3 });
+    expect(wkim.getReceipt('m1')?.readCount).toBe(3);
+    wkim.destroy();
+  });
+
+  it('markAsRead() reports each message once through receiptReporter', async () => {
+    const receiptReporter = vi.fn().mockResolvedValue(undefined);
+    const { wkim } = await createConnectedInstance({ receiptReporter });
+
+    await wkim.markAsRead(group, ['m1', 'm2']);
+    await wkim.markAsRead(group, ['m2', 'm3']);
+    await wkim.markAsRead(group, ['m3']);
+
+    expect(receiptReporter.mock.calls).toEqual([
+      [group, ['m1', 'm2']],
+      [group, ['m3']],
+    ]);
+    wkim.destroy();
+  });
+
+  it('markAsRead() rejects without a receiptReporter and retries after a failure', async () => {
+    const { wkim: withoutReporter } = await createConnectedInstance();
+    await expect(withoutReporter.markAsRead(group, ['m1'])).rejects.toThrow('markAsRead() requires the receiptReporter option.');
+    withoutReporter.destroy();
+
+    const receiptReporter = vi.fn().mockRejectedValueOnce(new Error('HTTP 500')).mockResolvedValue(undefined);
+    const { wkim } = await createConnectedInstance({ receiptReporter });
+    const onError = vi.fn();
+    wkim.on(Event.Error, onError);
+
+    await expect(wkim.markAsRead(group, ['m1'])).rejects.toThrow('Failed to report read receipts for channel group1: HTTP 500');
+    expect(onError).toHaveBeenCalledTimes(1);
+    await wkim.markAsRead(group, ['m1']);
+    expect(receiptReporter).toHaveBeenCalledTimes(2);
+    wkim.destroy();
+  });
+});
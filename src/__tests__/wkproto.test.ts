@@ -0,0 +1,391 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WKProtoCodec, PacketType, base64ToBytes, bytesToBase64 } from '../wkproto';
+
+function bytesOf(buffer: ArrayBuffer): number[] {
+  return Array.from(new Uint8Array(buffer));
+}
+
+function frame(packetType: number, flags: number, body: number[]): Uint8Array {
+  // All fixtures are < 128 bytes, so remaining length fits in one byte
+  return new Uint8Array([(packetType << 4) | flags, body.length, ...body]);
+}
+
+function str(value: string): number[] {
+  const bytes = Array.from(new TextEncoder().encode(value));
+  return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+}
+
+function int64(high: number, low: number): number[] {
+  return [
+    (high >>> 24) & 0xff, (high >>> 16) & 0xff, (high >>> 8) & 0xff, high & 0xff,
+    (low >>> 24) & 0xff, (low >>> 16) & 0xff, (low >>> 8) & 0xff, low & 0xff,
+  ];
+}
+
+function uint32(value: number): number[] {
+  return int64(0, value).slice(4);
+}
+
+function hex(value: string): Uint8Array {
+  return new Uint8Array(value.trim().split(/\s+/).map(byte => parseInt(byte, 16)));
+}
+
+describe('base64 helpers', () => {
+  it('round-trips arbitrary bytes', () => {
+    const bytes = new Uint8Array([0, 1, 2, 250, 251, 255, 128]);
+    const encoded = bytesToBase64(bytes);
+    expect(encoded).toBe(Buffer.from(bytes).toString('base64'));
+    expect(Array.from(base64ToBytes(encoded))).toEqual(Array.from(bytes));
+  });
+});
+
+describe('WKProtoCodec', () => {
+  let codec: WKProtoCodec;
+
+  beforeEach(() => {
+    codec = new WKProtoCodec();
+  });
+
+  describe('connect', () => {
+    it('encodes a CONNECT frame', () => {
+      const encoded = codec.encode({
+        id: 'c1',
+        method: 'connect',
+        params: { uid: 'u1', token: 't', deviceId: 'd', deviceFlag: 0, clientTimestamp: 1 },
+      });
+
+      expect(bytesOf(encoded)).toEqual(Array.from(frame(PacketType.CONNECT, 0, [
+        4, 0, ...str('d'), ...str('u1'), ...str('t'), ...int64(0, 1), ...str(''),
+      ])));
+    });
+
+    it('maps a successful CONNACK to the pending connect request', () => {
+      codec.encode({ id: 'c1', method: 'connect', params: { uid: 'u1', token: 't' } });
+
+      const messages = codec.decode(frame(PacketType.CONNACK, 0x01, [
+        4, ...int64(0xffffffff, 0xfffffc18), 1, ...str('key'), ...str('salt'), ...int64(0, 7),
+      ]));
+
+      expect(messages).toEqual([{
+        id: 'c1',
+        result: { serverKey: 'key', salt: 'salt', timeDiff: -1000, reasonCode: 1, serverVersion: 4, nodeId: 7 },
+      }]);
+      expect(codec.protocolVersion).toBe(4);
+    });
+
+    it('maps a failed CONNACK to an error response', () => {
+      codec.encode({ id: 'c1', method: 'connect', params: {} });
+
+      const messages = codec.decode(frame(PacketType.CONNACK, 0, [
+        ...int64(0, 0), 2, ...str(''), ...str(''),
+      ]));
+
+      expect(messages).toEqual([{ id: 'c1', error: { code: 2, message: 'Connect failed (reasonCode: 2)' } }]);
+    });
+
+    it('negotiates down to an older server version', () => {
+      codec.encode({ id: 'c1', method: 'connect', params: {} });
+      codec.decode(frame(PacketType.CONNACK, 0x01, [2, ...int64(0, 0), 1, ...str(''), ...str('')]));
+      expect(codec.protocolVersion).toBe(2);
+
+      // v2 SEND has no expire field
+      const encoded = codec.encode({
+        id: 's1',
+        method: 'send',
+        params: { clientMsgNo: 'n', channelId: 'ch', channelType: 1, payload: 'AQ==' },
+      });
+      expect(bytesOf(encoded)).toEqual(Array.from(frame(PacketType.SEND, 0, [
+        0, ...uint32(1), ...str('n'), ...str('ch'), 1, ...str(''), 1,
+      ])));
+    });
+  });
+
+  describe('send', () => {
+    it('encodes header flags, setting bits, topic and payload', () => {
+      const encoded = codec.encode({
+        id: 's1',
+        method: 'send',
+        params: {
+          header: { redDot: true, noPersist: true },
+          setting: { receipt: true, topic: true },
+          clientMsgNo: 'n1',
+          channelId: 'ch',
+          channelType: 2,
+          expire: 60,
+          topic: 'tp',
+          payload: bytesToBase64(new Uint8Array([7, 8])),
+        },
+      });
+
+      expect(bytesOf(encoded)).toEqual(Array.from(frame(PacketType.SEND, 0x03, [
+        0x88, ...uint32(1), ...str('n1'), ...str('ch'), 2, ...uint32(60), ...str(''), ...str('tp'), 7, 8,
+      ])));
+    });
+
+    it('encodes a stream chunk in the SendPacket layout, which has no stream flag', () => {
+      const encoded = codec.encode({
+        id: 's1',
+        method: 'send',
+        params: { setting: { stream: true }, streamNo: 'st', streamFlag: 2, clientMsgNo: 'n', channelId: 'ch', channelType: 1, payload: 'AQ==' },
+      });
+
+      // setting, clientSeq, clientMsgNo, streamNo, channelId, channelType, expire, msgKey, payload
+      expect(bytesOf(encoded)).toEqual(Array.from(hex(
+        '30 18 02 00 00 00 01 00 01 6e 00 02 73 74 00 02 63 68 01 00 00 00 00 00 00 01',
+      )));
+    });
+
+    it('correlates SENDACK by client sequence', () => {
+      codec.encode({ id: 's1', method: 'send', params: { channelId: 'a', channelType: 1, payload: '' } });
+      codec.encode({ id: 's2', method: 'send', params: { channelId: 'b', channelType: 1, payload: '' } });
+
+      const messages = codec.decode(frame(PacketType.SENDACK, 0, [
+        ...int64(0x00000001, 0x00000000), ...uint32(2), ...str('n2'), ...uint32(9), 1,
+      ]));
+
+      expect(messages).toEqual([{ id: 's2', result: { messageId: '4294967296', messageSeq: 9, reasonCode: 1 } }]);
+    });
+
+    it('drops acks for unknown sequences', () => {
+      const messages = codec.decode(frame(PacketType.SENDACK, 0, [
+        ...int64(0, 1), ...uint32(5), ...str(''), ...uint32(1), 1,
+      ]));
+      expect(messages).toEqual([]);
+    });
+  });
+
+  describe('recv', () => {
+    it('decodes a RECV frame into a recv notification', () => {
+      const messages = codec.decode(frame(PacketType.RECV, 0x02, [
+        0x08, ...str('mk'), ...str('alice'), ...str('ch'), 1, ...uint32(0), ...str('n1'),
+        ...int64(0x0a, 0x00000001), ...uint32(3), ...uint32(1700000000), ...str('tp'), 1, 2, 3,
+      ]));
+
+      expect(messages).toEqual([{
+        method: 'recv',
+        params: {
+          header: { dup: false, syncOnce: false, redDot: true, noPersist: false },
+          setting: { receipt: false, signal: false, topic: true, stream: false },
+          msgKey: 'mk',
+          fromUid: 'alice',
+          channelId: 'ch',
+          channelType: 1,
+          expire: 0,
+          clientMsgNo: 'n1',
+          messageId: '42949672961',
+          messageSeq: 3,
+          timestamp: 1700000000,
+          topic: 'tp',
+          payload: bytesToBase64(new Uint8Array([1, 2, 3])),
+        },
+      }]);
+    });
+
+    it('encodes RECVACK with a 64-bit message id', () => {
+      const encoded = codec.encode({
+        method: 'recvack',
+        params: { header: { redDot: true }, messageId: '42949672961', messageSeq: 3 },
+      });
+
+      expect(bytesOf(encoded)).toEqual(Array.from(frame(PacketType.RECVACK, 0x02, [
+        ...int64(0x0a, 0x00000001), ...uint32(3),
+      ])));
+    });
+  });
+
+  describe('ping', () => {
+    it('encodes PING as a single byte and answers requests in order', () => {
+      expect(bytesOf(codec.encode({ id: 'p1', method: 'ping', params: {} }))).toEqual([PacketType.PING << 4]);
+      codec.encode({ id: 'p2', method: 'ping', params: {} });
+
+      const pong = new Uint8Array([PacketType.PONG << 4, PacketType.PONG << 4, PacketType.PONG << 4]);
+      expect(codec.decode(pong)).toEqual([
+        { id: 'p1', result: null },
+        { id: 'p2', result: null },
+        { method: 'pong', params: null },
+      ]);
+    });
+  });
+
+  describe('subscribe', () => {
+    it('encodes SUB and correlates SUBACK by subNo', () => {
+      const encoded = codec.encode({
+        id: 'r1',
+        method: 'unsubscribe',
+        params: { subNo: 'sub1', channelId: 'live', channelType: 9, param: '' },
+      });
+      expect(bytesOf(encoded)).toEqual(Array.from(frame(PacketType.SUB, 0, [
+        0, ...str('sub1'), ...str('live'), 9, 1, ...str(''),
+      ])));
+
+      const messages = codec.decode(frame(PacketType.SUBACK, 0, [...str('sub1'), ...str('live'), 9, 1, 1]));
+      expect(messages).toEqual([{
+        id: 'r1',
+        result: { subNo: 'sub1', channelId: 'live', channelType: 9, action: 1, reasonCode: 1 },
+      }]);
+    });
+  });
+
+  describe('disconnect and event', () => {
+    it('decodes DISCONNECT into a notification', () => {
+      const messages = codec.decode(frame(PacketType.DISCONNECT, 0, [12, ...str('kicked')]));
+      expect(messages).toEqual([{ method: 'disconnect', params: { reasonCode: 12, reason: 'kicked' } }]);
+    });
+
+    it('decodes EVENT into a notification', () => {
+      const messages = codec.decode(frame(PacketType.EVENT, 0, [
+        ...str('e1'), ...str('typing'), ...int64(0, 5), ...Array.from(new TextEncoder().encode('{"a":1}')),
+      ]));
+      expect(messages).toEqual([{
+        method: 'event',
+        params: {
+          header: { dup: false, syncOnce: false, redDot: false, noPersist: false },
+          id: 'e1',
+          type: 'typing',
+          timestamp: 5,
+          data: '{"a":1}',
+        },
+      }]);
+    });
+  });
+
+  // Bytes produced by Proto.encode of the official WuKongIM JS SDK (wukongimjssdk 1.0.4 on npm) for
+  // the inputs in each test. That SDK speaks an older protocol version, so only packets whose layout
+  // v4 kept unchanged are compared; its SEND lacks expire and it has no encoder for server packets.
+  describe('client frames from the official JS SDK', () => {
+    it('encodes CONNECT like the official SDK', () => {
+      const encoded = codec.encode({
+        method: 'connect',
+        params: { version: 4, deviceFlag: 1, deviceId: 'web1', uid: 'alice', token: 't', clientTimestamp: 1729300000000, clientKey: 'k' },
+      });
+
+      expect(bytesOf(encoded)).toEqual(Array.from(hex(
+        '10 1d 04 01 00 04 77 65 62 31 00 05 61 6c 69 63 65 00 01 74 00 00 01 92 a2 4f ed 00 00 01 6b',
+      )));
+    });
+
+    it('encodes RECVACK like the official SDK', () => {
+      const encoded = codec.encode({
+        method: 'recvack',
+        params: { header: { redDot: true }, messageId: '1853226598184796160', messageSeq: 42 },
+      });
+
+      expect(bytesOf(encoded)).toEqual(Array.from(hex('62 0c 19 b7 fb c5 b1 1c 40 00 00 00 00 2a')));
+    });
+
+    it('encodes SUB for subscribe and unsubscribe like the official SDK', () => {
+      const params = { subNo: 'sub1', channelId: 'live1', channelType: 5, param: '' };
+
+      expect(bytesOf(codec.encode({ method: 'subscribe', params }))).toEqual(Array.from(hex(
+        'a0 12 00 00 04 73 75 62 31 00 05 6c 69 76 65 31 05 00 00 00',
+      )));
+      expect(bytesOf(codec.encode({ method: 'unsubscribe', params }))).toEqual(Array.from(hex(
+        'a0 12 00 00 04 73 75 62 31 00 05 6c 69 76 65 31 05 01 00 00',
+      )));
+    });
+  });
+
+  // Hand-assembled from the v4 ConnackPacket, RecvPacket and SendackPacket layouts (fixed header, varint
+  // remaining length, big-endian body), not captured from a server; spelled out byte by byte so they do
+  // not share the helpers' assumptions. Replace them with server captures once one is recorded.
+  describe('server frames', () => {
+    it('decodes a CONNACK frame', () => {
+      codec.encode({ id: 'c1', method: 'connect', params: { uid: 'alice', token: 't' } });
+
+      const messages = codec.decode(hex(
+        '21 52 04 ff ff ff ff ff ff ff db 01 00 2c 76 51 77 6b 31 46 71 30 58 66 ' +
+        '59 77 32 62 33 79 37 44 32 72 35 63 30 6d 33 58 62 47 7a 31 75 39 59 71 ' +
+        '38 63 4a 78 34 6d 51 32 55 3d 00 10 38 6d 52 32 78 4b 39 70 4c 34 76 54 ' +
+        '37 71 57 7a 00 00 00 00 00 00 03 e9',
+      ));
+
+      expect(messages).toEqual([{
+        id: 'c1',
+        result: {
+          serverKey: 'vQwk1Fq0XfYw2b3y7D2r5c0m3XbGz1u9Yq8cJx4mQ2U=',
+          salt: '8mR2xK9pL4vT7qWz',
+          timeDiff: -37,
+          reasonCode: 1,
+          serverVersion: 4,
+          nodeId: 1001,
+        },
+      }]);
+    });
+
+    it('decodes a RECV frame with a two-byte remaining length', () => {
+      const messages = codec.decode(hex(
+        '52 85 01 00 00 20 35 64 34 31 34 30 32 61 62 63 34 62 32 61 37 36 62 39 ' +
+        '37 31 39 64 39 31 31 30 31 37 63 35 39 32 00 05 61 6c 69 63 65 00 06 67 ' +
+        '72 6f 75 70 31 02 00 00 00 00 00 20 33 66 31 65 37 63 30 61 39 62 38 64 ' +
+        '34 65 36 66 38 61 32 62 31 63 30 64 39 65 38 66 37 61 36 62 19 b7 fb c5 ' +
+        'b1 1c 40 00 00 00 00 2a 67 13 06 20 7b 22 74 79 70 65 22 3a 31 2c 22 63 ' +
+        '6f 6e 74 65 6e 74 22 3a 22 68 65 6c 6c 6f 22 7d',
+      ));
+
+      expect(messages).toEqual([{
+        method: 'recv',
+        params: {
+          header: { dup: false, syncOnce: false, redDot: true, noPersist: false },
+          setting: { receipt: false, signal: false, topic: false, stream: false },
+          msgKey: '5d41402abc4b2a76b9719d911017c592',
+          fromUid: 'alice',
+          channelId: 'group1',
+          channelType: 2,
+          expire: 0,
+          clientMsgNo: '3f1e7c0a9b8d4e6f8a2b1c0d9e8f7a6b',
+          messageId: '1853226598184796160',
+          messageSeq: 42,
+          timestamp: 1729300000,
+          payload: 'eyJ0eXBlIjoxLCJjb250ZW50IjoiaGVsbG8ifQ==',
+        },
+      }]);
+    });
+
+    it('decodes a SENDACK frame', () => {
+      codec.encode({
+        id: 's1',
+        method: 'send',
+        params: { clientMsgNo: '9c2b7e1d4a6f4b8e9d3c2a1b0f9e8d7c', channelId: 'group1', channelType: 2, payload: {} },
+      });
+
+      const messages = codec.decode(hex(
+        '40 33 19 b7 fb c5 b1 1c 40 01 00 00 00 01 00 20 39 63 32 62 37 65 31 64 ' +
+        '34 61 36 66 34 62 38 65 39 64 33 63 32 61 31 62 30 66 39 65 38 64 37 63 ' +
+        '00 00 00 2b 01',
+      ));
+
+      expect(messages).toEqual([{ id: 's1', result: { messageId: '1853226598184796161', messageSeq: 43, reasonCode: 1 } }]);
+    });
+  });
+
+  describe('framing', () => {
+    it('buffers partial frames until the rest arrives', () => {
+      const full = frame(PacketType.DISCONNECT, 0, [1, ...str('bye')]);
+
+      expect(codec.decode(full.slice(0, 3))).toEqual([]);
+      expect(codec.decode(full.slice(3))).toEqual([{ method: 'disconnect', params: { reasonCode: 1, reason: 'bye' } }]);
+    });
+
+    it('uses multi-byte remaining length for large bodies', () => {
+      const payload = bytesToBase64(new Uint8Array(200));
+      const bytes = new Uint8Array(codec.encode({
+        method: 'send',
+        params: { clientMsgNo: '', channelId: '', channelType: 1, payload },
+      }));
+      const bodyLength = 1 + 4 + 2 + 2 + 1 + 4 + 2 + 200;
+      expect(bytes[1]).toBe((bodyLength % 128) | 0x80);
+      expect(bytes[2]).toBe(Math.floor(bodyLength / 128));
+      expect(bytes.length).toBe(3 + bodyLength);
+    });
+
+    it('rejects text frames', () => {
+      expect(() => codec.decode('{}')).toThrow('expected a binary frame');
+    });
+
+    it('clears correlation state on reset', () => {
+      codec.encode({ id: 'p1', method: 'ping', params: {} });
+      codec.reset();
+      expect(codec.decode(new Uint8Array([PacketType.PONG << 4]))).toEqual([{ method: 'pong', params: null }]);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+// --- Server Clock Synchronization ---
+//
+// Estimates the offset between the local clock and the server clock (server - local, in ms) from the
+// connect handshake. WuKongIM pongs carry no server time (the JSON-RPC pong result is null and the
+// wkproto PONG is a single header byte), so the handshake timeDiff is the only sample there is; every
+// (re)connect replaces it.
+
+export interface ClockSample {
+    /** Estimated server clock minus local clock, in ms */
+    offset: number;
+    /** Round-trip time of the exchange that produced the sample, in ms */
+    rtt: number;
+}
+
+export class ClockSync {
+    private sample: ClockSample | null = null;
+
+    /** Current offset estimate (0 until the first handshake) */
+    get offset(): number {
+        return this.sample ? this.sample.offset : 0;
+    }
+
+    /** Round-trip time of the handshake behind the estimate, or null before the first handshake */
+    get rtt(): number | null {
+        return this.sample ? this.sample.rtt : null;
+    }
+
+    /**
+     * Takes the connect handshake sample. The server's timeDiff is its receive time minus clientTimestamp,
+     * so it includes the one-way latency; half the round trip is subtracted to compensate. The sample of
+     * the previous connection is dropped: it may describe another route or server.
+     */
+    addHandshake(timeDiff: number, rtt: number): void {
+        this.sample = { offset: timeDiff - rtt / 2, rtt };
+    }
+}
@@ -0,0 +1,207 @@
+// --- WebSocket Adapter Conformance ---
+//
+// A framework-agnostic self-test for custom IWebSocketAdapter implementations. It drives an
+// adapter against a real echo server and checks the open/message/error/close semantics the
+// SDK relies on, returning a report instead of throwing so it can be used from any test runner.
+
+import type { IWebSocketAdapter, WebSocketFactory } from './index';
+
+// Mirrors the WebSocket readyState constants in index.ts (type-only import avoids a runtime cycle)
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+export interface AdapterConformanceOptions {
+    /** URL of a WebSocket echo server (every received frame is sent back unchanged) */
+    echoUrl: string;
+    /** URL nothing listens on; enables the connection-failure checks */
+    unreachableUrl?: string;
+    /** Per-step timeout in ms (default: 5000) */
+    timeoutMs?: number;
+}
+
+export interface AdapterConformanceCheck {
+    name: string;
+    passed: boolean;
+    error?: string;
+}
+
+export interface AdapterConformanceReport {
+    /** True when every check passed */
+    passed: boolean;
+    checks: AdapterConformanceCheck[];
+}
+
+/**
+ * Records the callbacks an adapter fires so checks can wait on them.
+ */
+class AdapterProbe {
+    readonly events: Array<{ type: 'open' | 'message' | 'error' | 'close'; data?: any }> = [];
+    private waiters: Array<() => void> = [];
+
+    constructor(readonly adapter: IWebSocketAdapter) {
+        adapter.onopen = () => this.record('open');
+        adapter.onmessage = event => this.record('message', event?.data);
+        adapter.onerror = event => this.record('error', event);
+        adapter.onclose = event => this.record('close', event);
+    }
+
+    count(type: string): number {
+        return this.events.filter(event => event.type === type).length;
+    }
+
+    waitFor(description: string, predicate: () => boolean, timeoutMs: number): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const check = () => {
+                if (predicate()) {
+                    clearTimeout(timer);
+                    this.waiters = this.waiters.filter(waiter => waiter !== check);
+                    resolve();
+                }
+            };
+            const timer = setTimeout(() => {
+                this.waiters = this.waiters.filter(waiter => waiter !== check);
+                reject(new Error(`Timed out after ${timeoutMs}ms waiting for ${description}`));
+            }, timeoutMs);
+            this.waiters.push(check);
+            check();
+        });
+    }
+
+    private record(type: 'open' | 'message' | 'error' | 'close', data?: any): void {
+        this.events.push({ type, data });
+        this.waiters.slice().forEach(waiter => waiter());
+    }
+}
+
+function assert(condition: boolean, message: string): void {
+    if (!condition) {
+        throw new Error(message);
+    }
+}
+
+function toBytes(data: any): Uint8Array | null {
+    if (data instanceof ArrayBuffer) {
+        return new Uint8Array(data);
+    }
+    if (ArrayBuffer.isView(data)) {
+        return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    }
+    return null;
+}
+
+/** Closes an adapter that may already be closed or broken, ignoring anything it throws */
+function closeQuietly(adapter: IWebSocketAdapter): void {
+    try {
+        if (adapter.readyState !== CLOSED) {
+            adapter.close();
+        }
+    } catch {
+        // The check that left it in this state has already been reported
+    }
+}
+
+/**
+ * Runs the adapter conformance suite against an echo server.
+ *
+ * @example
+ * const report = await runAdapterConformance(url => new MyAdapter(url), { echoUrl: 'ws://localhost:8080' });
+ * expect(report.checks.filter(c => !c.passed)).toEqual([]);
+ */
+export async function runAdapterConformance(
+    factory: WebSocketFactory,
+    options: AdapterConformanceOptions
+): Promise<AdapterConformanceReport> {
+    const timeoutMs = options.timeoutMs ?? 5000;
+    const checks: AdapterConformanceCheck[] = [];
+    let probe: AdapterProbe | null = null;
+
+    const run = async (name: string, body: () => void | Promise<void>) => {
+        try {
+            await body();
+            checks.push({ name, passed: true });
+        } catch (error) {
+            checks.push({ name, passed: false, error: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    try {
+        await run('starts in CONNECTING state', () => {
+            probe = new AdapterProbe(factory(options.echoUrl));
+            if ('binaryType' in probe.adapter) {
+                probe.adapter.binaryType = 'arraybuffer';
+            }
+            assert(probe.adapter.readyState === CONNECTING, `readyState is ${probe.adapter.readyState}, expected ${CONNECTING}`);
+        });
+
+        await run('fires onopen once and reports OPEN', async () => {
+            assert(probe !== null, 'adapter could not be created');
+            await probe!.waitFor('onopen', () => probe!.count('open') > 0, timeoutMs);
+            assert(probe!.adapter.readyState === OPEN, `readyState is ${probe!.adapter.readyState} after onopen, expected ${OPEN}`);
+            assert(probe!.count('open') === 1, `onopen fired ${probe!.count('open')} times`);
+        });
+
+        await run('round-trips text frames as strings', async () => {
+            assert(probe?.adapter.readyState === OPEN, 'adapter is not open');
+            const before = probe!.count('message');
+            probe!.adapter.send('conformance-text');
+            await probe!.waitFor('text echo', () => probe!.count('message') > before, timeoutMs);
+            const data = probe!.events.filter(event => event.type === 'message')[before].data;
+            assert(data === 'conformance-text', `received ${JSON.stringify(data)}`);
+        });
+
+        await run('round-trips binary frames as ArrayBuffer', async () => {
+            assert(probe?.adapter.readyState === OPEN, 'adapter is not open');
+            const before = probe!.count('message');
+            const sent = new Uint8Array([0, 1, 127, 128, 255]);
+            probe!.adapter.send(sent.buffer);
+            await probe!.waitFor('binary echo', () => probe!.count('message') > before, timeoutMs);
+            const bytes = toBytes(probe!.events.filter(event => event.type === 'message')[before].data);
+            assert(bytes !== null, 'binary frame was not delivered as ArrayBuffer or a typed array');
+            assert(Array.from(bytes!).join(',') === Array.from(sent).join(','), `received bytes ${Array.from(bytes!)}`);
+        });
+
+        await run('close() fires onclose once with the code and reports CLOSED', async () => {
+            assert(probe?.adapter.readyState === OPEN, 'adapter is not open');
+            probe!.adapter.close(1000, 'conformance done');
+            await probe!.waitFor('onclose', () => probe!.count('close') > 0, timeoutMs);
+            const event = probe!.events.find(e => e.type === 'close')!.data;
+            assert(event && event.code === 1000, `onclose code is ${event?.code}, expected 1000`);
+            assert(probe!.adapter.readyState === CLOSED, `readyState is ${probe!.adapter.readyState} after onclose, expected ${CLOSED}`);
+            // A second close() must be a no-op
+            probe!.adapter.close();
+            await new Promise(resolve => setTimeout(resolve, 50));
+            assert(probe!.count('close') === 1, `onclose fired ${probe!.count('close')} times`);
+        });
+    } finally {
+        // Checks that fail midway must not leave the echo connection open
+        if (probe) {
+            closeQuietly((probe as AdapterProbe).adapter);
+        }
+    }
+
+    if (options.unreachableUrl) {
+        const unreachableUrl = options.unreachableUrl;
+        await run('a failed connection fires onerror, then onclose without onopen, and reports CLOSED', async () => {
+            let failed: AdapterProbe;
+            try {
+                failed = new AdapterProbe(factory(unreachableUrl));
+            } catch (error) {
+                // Throwing synchronously is also acceptable: the SDK treats it as a failed attempt
+                return;
+            }
+            try {
+                await failed.waitFor('onclose', () => failed.count('close') > 0, timeoutMs);
+                const order = failed.events.map(event => event.type);
+                assert(failed.count('open') === 0, 'onopen fired for an unreachable URL');
+                assert(failed.count('error') > 0, 'onerror did not fire for an unreachable URL');
+                assert(order.indexOf('error') < order.indexOf('close'), 'onerror fired after onclose');
+                assert(failed.adapter.readyState === CLOSED, `readyState is ${failed.adapter.readyState}, expected ${CLOSED}`);
+            } finally {
+                closeQuietly(failed.adapter);
+            }
+        });
+    }
+
+    return { passed: checks.every(check => check.passed), checks };
+}
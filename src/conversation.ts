@@ -0,0 +1,177 @@
+// --- Conversations ---
+//
+// Builds the recent-conversation list from the messages the SDK sends and receives: one entry per
+// channel with its last message, unread count (incoming messages with header.redDot) and mute state.
+// Server state from /conversation/sync can be merged in, and is authoritative for unread counts.
+
+import type { ChannelRef } from './sequence';
+import type { StoredMessage } from './store';
+
+export interface Conversation {
+    channelId: string;
+    channelType: number;
+    /** Most recent message (by messageSeq, then timestamp), or null when only known from sync */
+    lastMessage: StoredMessage | null;
+    /** Server timestamp of the last message, in seconds */
+    timestamp: number;
+    /** Incoming red-dot messages since the last markRead() */
+    unread: number;
+    /** Muted conversations keep counting unread messages but are left out of totalUnread() */
+    muted: boolean;
+}
+
+/** One entry of a conversation sync response, mapped to SDK field names */
+export interface ConversationSyncItem {
+    channelId: string;
+    channelType: number;
+    unread?: number;
+    timestamp?: number;
+    /** Sequence of the channel's latest message when `unread` was counted */
+    lastMsgSeq?: number;
+    lastMessage?: StoredMessage;
+    muted?: boolean;
+}
+
+function isNewer(message: StoredMessage, than: StoredMessage | null): boolean {
+    if (!than) {
+        return true;
+    }
+    if (message.messageSeq > 0 && than.messageSeq > 0) {
+        return message.messageSeq >= than.messageSeq;
+    }
+    return message.timestamp >= than.timestamp;
+}
+
+export class ConversationManager {
+    private conversations: Map<string, Conversation> = new Map();
+    private syncedSeqs: Map<string, number> = new Map(); // Channel key -> lastMsgSeq covered by the synced unread count
+
+    constructor(private readonly onUpdate: (conversation: Conversation) => void) {}
+
+    /** Conversations, most recent first */
+    list(): Conversation[] {
+        return Array.from(this.conversations.values())
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .map(conversation => ({ ...conversation }));
+    }
+
+    get(channel: ChannelRef): Conversation | null {
+        const conversation = this.conversations.get(this.key(channel));
+        return conversation ? { ...conversation } : null;
+    }
+
+    /** Sum of unread counts over conversations that are not muted */
+    totalUnread(): number {
+        let total = 0;
+        this.conversations.forEach(conversation => {
+            if (!conversation.muted) {
+                total += conversation.unread;
+            }
+        });
+        return total;
+    }
+
+    /**
+     * Resets the channel's unread count. This is local only; also clear it on the server
+     * (e.g. /conversations/clearUnread) so other devices and the next sync agree.
+     */
+    markRead(channel: ChannelRef): void {
+        const conversation = this.conversations.get(this.key(channel));
+        if (conversation && conversation.unread > 0) {
+            conversation.unread = 0;
+            this.notify(conversation);
+        }
+    }
+
+    setMuted(channel: ChannelRef, muted: boolean): void {
+        const conversation = this.ensure(channel);
+        if (conversation.muted !== muted) {
+            conversation.muted = muted;
+            this.notify(conversation);
+        }
+    }
+
+    /**
+     * Applies a sent or received message. `countUnread` is true for incoming messages with header.redDot;
+     * messages already included in a synced unread count (messageSeq <= its lastMsgSeq) are not counted again.
+     */
+    apply(message: StoredMessage, countUnread: boolean): void {
+        const conversation = this.ensure(message);
+        const syncedSeq = this.syncedSeqs.get(this.key(message));
+        const alreadyCounted = syncedSeq !== undefined && message.messageSeq > 0 && message.messageSeq <= syncedSeq;
+        if (countUnread && !alreadyCounted) {
+            conversation.unread++;
+        }
+        if (isNewer(message, conversation.lastMessage)) {
+            conversation.lastMessage = { ...message };
+            conversation.timestamp = Math.max(conversation.timestamp, message.timestamp);
+        }
+        this.notify(conversation);
+    }
+
+    /**
+     * Merges server state (e.g. from /conversation/sync). Unread counts and mute state from the
+     * server replace the local ones; the last message is only replaced by a newer one.
+     */
+    hydrate(items: ConversationSyncItem[]): void {
+        items.forEach(item => {
+            const conversation = this.ensure(item);
+            if (item.unread !== undefined) {
+                conversation.unread = item.unread;
+                const lastMsgSeq = item.lastMsgSeq ?? item.lastMessage?.messageSeq;
+                if (lastMsgSeq !== undefined) {
+                    this.syncedSeqs.set(this.key(item), lastMsgSeq);
+                }
+            }
+            if (item.muted !== undefined) {
+                conversation.muted = item.muted;
+            }
+            if (item.lastMessage && isNewer(item.lastMessage, conversation.lastMessage)) {
+                conversation.lastMessage = { ...item.lastMessage };
+            }
+            conversation.timestamp = Math.max(conversation.timestamp, item.timestamp ?? 0, conversation.lastMessage?.timestamp ?? 0);
+            this.notify(conversation);
+        });
+    }
+
+    /**
+     * Forgets a message that expired: it stops being its conversation's lastMessage.
+     */
+    removeMessage(message: ChannelRef & { messageId: string }): void {
+        const conversation = this.conversations.get(this.key(message));
+        if (conversation && conversation.lastMessage?.messageId === message.messageId) {
+            conversation.lastMessage = null;
+            this.notify(conversation);
+        }
+    }
+
+    clear(): void {
+        this.conversations.clear();
+        this.syncedSeqs.clear();
+    }
+
+    private ensure(channel: ChannelRef): Conversation {
+        const key = this.key(channel);
+        let conversation = this.conversations.get(key);
+        if (!conversation) {
+            conversation = {
+                channelId: channel.channelId,
+                channelType: channel.channelType,
+                lastMessage: null,
+                timestamp: 0,
+                unread: 0,
+                muted: false,
+            };
+            this.conversations.set(key, conversation);
+        }
+        return conversation;
+    }
+
+    private notify(conversation: Conversation): void {
+        this.onUpdate({ ...conversation });
+    }
+
+    private key(channel: ChannelRef): string {
+        return `${channel.channelType}:${channel.channelId}`;
+    }
+}
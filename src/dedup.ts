@@ -0,0 +1,152 @@
+// --- Received Message Deduplication ---
+//
+// Remembers the messageId and clientMsgNo of recently received messages so redeliveries (after a
+// reconnect, or a sender retrying with the same clientMsgNo) are dropped. The cache is bounded by
+// size and age, and can be mirrored to a Storage-like backend so it survives page reloads.
+
+/** Synchronous key/value storage, e.g. window.localStorage or a wrapper around wx.getStorageSync */
+export interface DedupStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+}
+
+export interface DedupOptions {
+    /** Maximum number of remembered keys (default: 1000) */
+    maxSize?: number;
+    /** How long a key is remembered, in ms (default: 10 minutes) */
+    ttl?: number;
+    /** Persist the cache; true uses localStorage when available */
+    storage?: DedupStorage | boolean;
+    /** Storage key (default: 'wkim:dedup:<uid>') */
+    storageKey?: string;
+}
+
+type DedupKeySource = { messageId?: string; clientMsgNo?: string; channelId?: string; channelType?: number };
+
+const PERSIST_DELAY_MS = 500; // Coalesces writes when messages arrive in bursts
+
+function defaultStorage(): DedupStorage | null {
+    try {
+        return typeof localStorage !== 'undefined' ? localStorage : null;
+    } catch (error) {
+        return null; // Access can throw when storage is disabled
+    }
+}
+
+export class DedupCache {
+    private seen: Map<string, number> = new Map(); // key -> first seen (ms), oldest first
+    private maxSize: number;
+    private ttl: number;
+    private storage: DedupStorage | null;
+    private storageKey: string;
+    private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(options: DedupOptions, defaultStorageKey: string) {
+        this.maxSize = options.maxSize ?? 1000;
+        this.ttl = options.ttl ?? 10 * 60 * 1000;
+        this.storage = options.storage === true ? defaultStorage() : (options.storage || null);
+        this.storageKey = options.storageKey || defaultStorageKey;
+        this.load();
+    }
+
+    /** Number of remembered keys */
+    get size(): number {
+        return this.seen.size;
+    }
+
+    /** True if any of the message's keys was already seen; records nothing */
+    has(message: DedupKeySource): boolean {
+        this.prune(Date.now());
+        return this.keys(message).some(key => this.seen.has(key));
+    }
+
+    /**
+     * Records the message's keys. Call once the message is done with (acknowledged), so a
+     * redelivery of a message that is still being handled is not dropped.
+     */
+    remember(message: DedupKeySource): void {
+        const now = Date.now();
+        this.keys(message).forEach(key => {
+            if (!this.seen.has(key)) {
+                this.seen.set(key, now);
+            }
+        });
+        while (this.seen.size > this.maxSize) {
+            this.seen.delete(this.seen.keys().next().value as string);
+        }
+        this.schedulePersist();
+    }
+
+    /** Forgets every key, including the persisted copy */
+    clear(): void {
+        this.seen.clear();
+        this.persist();
+    }
+
+    /** Writes pending changes to storage immediately and stops the write timer */
+    flush(): void {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+            this.persistTimer = null;
+            this.persist();
+        }
+    }
+
+    private keys(message: DedupKeySource): string[] {
+        const keys: string[] = [];
+        if (message.messageId) {
+            keys.push(`id:${message.messageId}`);
+        }
+        if (message.clientMsgNo) {
+            keys.push(`no:${message.channelType}:${message.channelId}:${message.clientMsgNo}`);
+        }
+        return keys;
+    }
+
+    private prune(now: number): void {
+        for (const [key, seenAt] of this.seen) {
+            if (now - seenAt < this.ttl) {
+                break; // Entries are in insertion order, so the rest are newer
+            }
+            this.seen.delete(key);
+        }
+    }
+
+    private load(): void {
+        if (!this.storage) {
+            return;
+        }
+        try {
+            const raw = this.storage.getItem(this.storageKey);
+            const entries: Array<[string, number]> = raw ? JSON.parse(raw) : [];
+            entries
+                .filter(entry => Array.isArray(entry) && typeof entry[0] === 'string' && typeof entry[1] === 'number')
+                .sort((a, b) => a[1] - b[1])
+                .forEach(([key, seenAt]) => this.seen.set(key, seenAt));
+            this.prune(Date.now());
+        } catch (error) {
+            // A corrupt entry only costs us the cache
+        }
+    }
+
+    private schedulePersist(): void {
+        if (!this.storage || this.persistTimer) {
+            return;
+        }
+        this.persistTimer = setTimeout(() => {
+            this.persistTimer = null;
+            this.persist();
+        }, PERSIST_DELAY_MS);
+    }
+
+    private persist(): void {
+        if (!this.storage) {
+            return;
+        }
+        try {
+            this.storage.setItem(this.storageKey, JSON.stringify(Array.from(this.seen.entries())));
+        } catch (error) {
+            // Quota exceeded or storage unavailable; dedup keeps working in memory
+        }
+    }
+}
@@ -0,0 +1,67 @@
+// --- Message Expiry ---
+//
+// Tracks when delivered ephemeral messages expire. Entries are kept sorted by deadline and a single
+// timer is armed for the earliest one, so thousands of expiring messages cost one pending timeout.
+
+// setTimeout fires immediately for delays above 2^31 - 1 ms; longer waits are re-armed in steps
+const MAX_TIMER_DELAY_MS = 0x7fffffff;
+
+export class ExpiryQueue<T> {
+    private entries: Array<{ expiresAt: number; item: T }> = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(private readonly onExpire: (item: T) => void) {}
+
+    /** Number of entries waiting to expire */
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Schedules `item` to expire at `expiresAt` (ms since epoch, local clock).
+     */
+    add(expiresAt: number, item: T): void {
+        // Insert after entries with the same deadline so they expire in arrival order
+        let index = this.entries.length;
+        while (index > 0 && this.entries[index - 1].expiresAt > expiresAt) {
+            index--;
+        }
+        this.entries.splice(index, 0, { expiresAt, item });
+        if (index === 0) {
+            this.arm();
+        }
+    }
+
+    /** Drops all entries without firing them */
+    clear(): void {
+        this.entries = [];
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private arm(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.entries.length === 0) {
+            return;
+        }
+        const delay = Math.min(MAX_TIMER_DELAY_MS, Math.max(0, this.entries[0].expiresAt - Date.now()));
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.fireDue();
+        }, delay);
+    }
+
+    private fireDue(): void {
+        const now = Date.now();
+        while (this.entries.length > 0 && this.entries[0].expiresAt <= now) {
+            const { item } = this.entries.shift()!;
+            this.onExpire(item);
+        }
+        this.arm();
+    }
+}
@@ -1,13 +1,35 @@
 // import { v4 as uuidv4 } from 'uuid'; // Remove this line
+import { WKProtoCodec, base64ToBytes, bytesToBase64 } from './wkproto';
+import { RandomSource, SecureSession, generateKeyPair, hasSecureRandom } from './wkcrypto';
+import { ClockSync } from './clock';
+import { Logger, LogLevel, createLogger, defaultLogSink, silentLogger } from './logger';
+import { StatsCollector, WKIMStats } from './stats';
+import { DedupCache, DedupOptions } from './dedup';
+import { ExpiryQueue } from './expiry';
+import { ChannelRef, SequenceRange, SequenceTracker } from './sequence';
+import { IMessageStore, StoredMessage } from './store';
+import { Conversation, ConversationManager, ConversationSyncItem } from './conversation';
+import { ReceiptEvent, ReceiptReport, ReceiptTracker } from './receipt';
+import { MessageStreamWriter, StreamAssembler, StreamEvent, StreamFlag, StreamWriter } from './stream';
 
 // --- TypeScript Global Declarations for Mini Program Environments ---
 declare const wx: WeChatMiniProgram.Wx | undefined;
 declare const my: AlipayMiniProgram.My | undefined;
 declare const uni: UniApp.Uni | undefined;
 
+// Network/app lifecycle APIs shared by WeChat, Alipay and UniApp (availability varies by version)
+interface MiniProgramLifecycleApi {
+    onNetworkStatusChange?(callback: (res: { isConnected: boolean; networkType?: string }) => void): void;
+    offNetworkStatusChange?(callback?: (res: any) => void): void;
+    onAppShow?(callback: (res: any) => void): void;
+    offAppShow?(callback?: (res: any) => void): void;
+    onAppHide?(callback: (res: any) => void): void;
+    offAppHide?(callback?: (res: any) => void): void;
+}
+
 // WeChat Mini Program types
 declare namespace WeChatMiniProgram {
-    interface Wx {
+    interface Wx extends MiniProgramLifecycleApi {
         connectSocket(options: ConnectSocketOptions): SocketTask;
         arrayBufferToBase64(buffer: ArrayBuffer): string;
         base64ToArrayBuffer(base64: string): ArrayBuffer;
@@ -32,13 +54,13 @@ declare namespace WeChatMiniProgram {
 
 // Alipay Mini Program types
 declare namespace AlipayMiniProgram {
-    interface My {
+    interface My extends MiniProgramLifecycleApi {
         connectSocket(options: ConnectSocketOptions): void;
         onSocketOpen(callback: (res: any) => void): void;
         onSocketClose(callback: (res: any) => void): void;
         onSocketError(callback: (res: { errorMessage: string }) => void): void;
-        onSocketMessage(callback: (res: { data: string | ArrayBuffer }) => void): void;
-        sendSocketMessage(options: { data: string; success?: () => void; fail?: (err: any) => void }): void;
+        onSocketMessage(callback: (res: { data: string | ArrayBuffer; isBuffer?: boolean }) => void): void;
+        sendSocketMessage(options: { data: string; isBuffer?: boolean; success?: () => void; fail?: (err: any) => void }): void;
         closeSocket(options?: { code?: number; reason?: string; success?: () => void; fail?: (err: any) => void }): void;
         offSocketOpen(callback?: ((res: any) => void) | null): void;
         offSocketClose(callback?: ((res: any) => void) | null): void;
@@ -56,7 +78,7 @@ declare namespace AlipayMiniProgram {
 
 // UniApp types
 declare namespace UniApp {
-    interface Uni {
+    interface Uni extends MiniProgramLifecycleApi {
         connectSocket(options: ConnectSocketOptions): SocketTask;
     }
     interface ConnectSocketOptions {
@@ -81,23 +103,33 @@ declare namespace UniApp {
 /**
  * Unified WebSocket adapter interface for cross-platform compatibility.
  * All platform-specific adapters must implement this interface.
+ * Custom adapters (passed via the `webSocketFactory` option) can be checked with runAdapterConformance().
  */
-interface IWebSocketAdapter {
+export interface IWebSocketAdapter {
     readonly readyState: number;
     onopen: ((event: any) => void) | null;
     onmessage: ((event: { data: any }) => void) | null;
     onerror: ((event: any) => void) | null;
     onclose: ((event: { code: number; reason: string }) => void) | null;
-    send(data: string): void;
+    /** Set to 'arraybuffer' by the SDK so binary frames arrive as ArrayBuffer (browser/Node WebSocket only) */
+    binaryType?: string;
+    send(data: string | ArrayBuffer): void;
     close(code?: number, reason?: string): void;
 }
 
+/**
+ * Creates a WebSocket adapter for the given URL. The returned adapter must start connecting immediately.
+ */
+export type WebSocketFactory = (url: string) => IWebSocketAdapter;
+
 // WebSocket readyState constants
 const WS_CONNECTING = 0;
 const WS_OPEN = 1;
 const WS_CLOSING = 2;
 const WS_CLOSED = 3;
 
+export { WS_CONNECTING, WS_OPEN, WS_CLOSING, WS_CLOSED }
+
 // --- Platform Type Enum ---
 enum PlatformType {
     Browser = 'browser',
@@ -117,7 +149,7 @@ class WeChatWebSocketAdapter implements IWebSocketAdapter {
     onerror: ((event: any) => void) | null = null;
     onclose: ((event: { code: number; reason: string }) => void) | null = null;
 
-    constructor(url: string) {
+    constructor(url: string, private logger: Logger = silentLogger) {
         if (typeof wx === 'undefined') {
             throw new Error('WeChat Mini Program environment not detected');
         }
@@ -125,10 +157,10 @@ class WeChatWebSocketAdapter implements IWebSocketAdapter {
         this.socketTask = wx.connectSocket({
             url: url,
             success: () => {
-                console.log('WeChat WebSocket connecting...');
+                this.logger.debug('WeChat WebSocket connecting...');
             },
             fail: (err) => {
-                console.error('WeChat WebSocket connection failed:', err);
+                this.logger.error('WeChat WebSocket connection failed:', err);
                 this._readyState = WS_CLOSED;
                 if (this.onerror) {
                     this.onerror({ message: err.errMsg || 'Connection failed' });
@@ -145,15 +177,13 @@ class WeChatWebSocketAdapter implements IWebSocketAdapter {
 
         this.socketTask.onMessage((res) => {
             if (this.onmessage) {
-                const data = res.data instanceof ArrayBuffer 
-                    ? new TextDecoder().decode(res.data) 
-                    : res.data;
-                this.onmessage({ data });
+                // Binary frames are passed through as ArrayBuffer; the protocol codec decodes them
+                this.onmessage({ data: res.data });
             }
         });
 
         this.socketTask.onError((res) => {
-            console.error('WeChat WebSocket error:', res);
+            this.logger.error('WeChat WebSocket error:', res);
             if (this.onerror) {
                 this.onerror({ message: res.errMsg || 'WebSocket error' });
             }
@@ -171,14 +201,14 @@ class WeChatWebSocketAdapter implements IWebSocketAdapter {
         return this._readyState;
     }
 
-    send(data: string): void {
+    send(data: string | ArrayBuffer): void {
         if (this._readyState !== WS_OPEN || !this.socketTask) {
             throw new Error('WebSocket is not open');
         }
         this.socketTask.send({
             data: data,
             fail: (err) => {
-                console.error('WeChat WebSocket send failed:', err);
+                this.logger.error('WeChat WebSocket send failed:', err);
                 if (this.onerror) {
                     this.onerror({ message: 'Send failed' });
                 }
@@ -196,7 +226,7 @@ class WeChatWebSocketAdapter implements IWebSocketAdapter {
                 code: code || 1000,
                 reason: reason || '',
                 fail: (err) => {
-                    console.error('WeChat WebSocket close failed:', err);
+                    this.logger.error('WeChat WebSocket close failed:', err);
                 }
             });
         }
@@ -216,7 +246,7 @@ class AlipayWebSocketAdapter implements IWebSocketAdapter {
     onerror: ((event: any) => void) | null = null;
     onclose: ((event: { code: number; reason: string }) => void) | null = null;
 
-    constructor(url: string) {
+    constructor(url: string, private logger: Logger = silentLogger) {
         if (typeof my === 'undefined') {
             throw new Error('Alipay Mini Program environment not detected');
         }
@@ -231,15 +261,16 @@ class AlipayWebSocketAdapter implements IWebSocketAdapter {
 
         this.boundOnMessage = (res: any) => {
             if (this.onmessage) {
-                const data = res.data instanceof ArrayBuffer 
-                    ? new TextDecoder().decode(res.data) 
+                // Alipay delivers binary frames as base64 strings flagged with isBuffer
+                const data = res.isBuffer && typeof res.data === 'string'
+                    ? base64ToBytes(res.data).slice().buffer
                     : res.data;
                 this.onmessage({ data });
             }
         };
 
         this.boundOnError = (res: any) => {
-            console.error('Alipay WebSocket error:', res);
+            this.logger.error('Alipay WebSocket error:', res);
             if (this.onerror) {
                 this.onerror({ message: res.errorMessage || 'WebSocket error' });
             }
@@ -263,10 +294,10 @@ class AlipayWebSocketAdapter implements IWebSocketAdapter {
         my.connectSocket({
             url: url,
             success: () => {
-                console.log('Alipay WebSocket connecting...');
+                this.logger.debug('Alipay WebSocket connecting...');
             },
             fail: (err) => {
-                console.error('Alipay WebSocket connection failed:', err);
+                this.logger.error('Alipay WebSocket connection failed:', err);
                 this._readyState = WS_CLOSED;
                 this.cleanup();
                 if (this.onerror) {
@@ -280,17 +311,19 @@ class AlipayWebSocketAdapter implements IWebSocketAdapter {
         return this._readyState;
     }
 
-    send(data: string): void {
+    send(data: string | ArrayBuffer): void {
         if (typeof my === 'undefined') {
             throw new Error('Alipay Mini Program environment not detected');
         }
         if (this._readyState !== WS_OPEN) {
             throw new Error('WebSocket is not open');
         }
+        const isBuffer = typeof data !== 'string';
         my.sendSocketMessage({
-            data: data,
+            data: isBuffer ? bytesToBase64(new Uint8Array(data)) : data,
+            isBuffer: isBuffer,
             fail: (err) => {
-                console.error('Alipay WebSocket send failed:', err);
+                this.logger.error('Alipay WebSocket send failed:', err);
                 if (this.onerror) {
                     this.onerror({ message: 'Send failed' });
                 }
@@ -310,7 +343,7 @@ class AlipayWebSocketAdapter implements IWebSocketAdapter {
             code: code || 1000,
             reason: reason || '',
             fail: (err) => {
-                console.error('Alipay WebSocket close failed:', err);
+                this.logger.error('Alipay WebSocket close failed:', err);
             }
         });
     }
@@ -339,7 +372,7 @@ class UniAppWebSocketAdapter implements IWebSocketAdapter {
     onerror: ((event: any) => void) | null = null;
     onclose: ((event: { code: number; reason: string }) => void) | null = null;
 
-    constructor(url: string) {
+    constructor(url: string, private logger: Logger = silentLogger) {
         if (typeof uni === 'undefined') {
             throw new Error('UniApp environment not detected');
         }
@@ -347,10 +380,10 @@ class UniAppWebSocketAdapter implements IWebSocketAdapter {
         this.socketTask = uni.connectSocket({
             url: url,
             success: () => {
-                console.log('UniApp WebSocket connecting...');
+                this.logger.debug('UniApp WebSocket connecting...');
             },
             fail: (err) => {
-                console.error('UniApp WebSocket connection failed:', err);
+                this.logger.error('UniApp WebSocket connection failed:', err);
                 this._readyState = WS_CLOSED;
                 if (this.onerror) {
                     this.onerror({ message: err.errMsg || 'Connection failed' });
@@ -367,15 +400,13 @@ class UniAppWebSocketAdapter implements IWebSocketAdapter {
 
         this.socketTask.onMessage((res) => {
             if (this.onmessage) {
-                const data = res.data instanceof ArrayBuffer 
-                    ? new TextDecoder().decode(res.data) 
-                    : res.data;
-                this.onmessage({ data });
+                // Binary frames are passed through as ArrayBuffer; the protocol codec decodes them
+                this.onmessage({ data: res.data });
             }
         });
 
         this.socketTask.onError((res) => {
-            console.error('UniApp WebSocket error:', res);
+            this.logger.error('UniApp WebSocket error:', res);
             if (this.onerror) {
                 this.onerror({ message: res.errMsg || 'WebSocket error' });
             }
@@ -393,14 +424,14 @@ class UniAppWebSocketAdapter implements IWebSocketAdapter {
         return this._readyState;
     }
 
-    send(data: string): void {
+    send(data: string | ArrayBuffer): void {
         if (this._readyState !== WS_OPEN || !this.socketTask) {
             throw new Error('WebSocket is not open');
         }
         this.socketTask.send({
             data: data,
             fail: (err) => {
-                console.error('UniApp WebSocket send failed:', err);
+                this.logger.error('UniApp WebSocket send failed:', err);
                 if (this.onerror) {
                     this.onerror({ message: 'Send failed' });
                 }
@@ -418,7 +449,7 @@ class UniAppWebSocketAdapter implements IWebSocketAdapter {
                 code: code || 1000,
                 reason: reason || '',
                 fail: (err) => {
-                    console.error('UniApp WebSocket close failed:', err);
+                    this.logger.error('UniApp WebSocket close failed:', err);
                 }
             });
         }
@@ -457,14 +488,14 @@ function getPlatform(): PlatformType {
 }
 
 // Factory function to create platform-appropriate WebSocket
-function createWebSocket(url: string): IWebSocketAdapter {
+function createWebSocket(url: string, logger: Logger = silentLogger): IWebSocketAdapter {
     switch (getPlatform()) {
         case PlatformType.UniApp:
-            return new UniAppWebSocketAdapter(url);
+            return new UniAppWebSocketAdapter(url, logger);
         case PlatformType.WeChat:
-            return new WeChatWebSocketAdapter(url);
+            return new WeChatWebSocketAdapter(url, logger);
         case PlatformType.Alipay:
-            return new AlipayWebSocketAdapter(url);
+            return new AlipayWebSocketAdapter(url, logger);
         case PlatformType.Browser:
             return new WebSocket(url) as unknown as IWebSocketAdapter;
         case PlatformType.NodeJS:
@@ -484,6 +515,74 @@ function createWebSocket(url: string): IWebSocketAdapter {
 // Export platform info for debugging
 export { PlatformType, getPlatform, currentPlatform }
 
+// --- Protocol Codecs ---
+
+/**
+ * Wire protocol used between the SDK and the server
+ */
+export enum Protocol {
+    /** JSON-RPC 2.0 adaptation of the WuKongIM protocol (text frames) */
+    JsonRpc = 'jsonrpc',
+    /** Native WuKongIM binary protocol (wkproto) */
+    Binary = 'binary',
+}
+
+/**
+ * Translates between the SDK's JSON-RPC shaped messages and wire frames.
+ */
+interface IProtocolCodec {
+    encode(message: JsonRpcRequest | JsonRpcNotification): string | ArrayBuffer;
+    /** Encodes messages sent together, coalescing them into as few WebSocket frames as the protocol allows */
+    encodeBatch(messages: Array<JsonRpcRequest | JsonRpcNotification>): Array<string | ArrayBuffer>;
+    decode(data: any): Array<JsonRpcResponse | JsonRpcNotification>;
+    /** Clears per-connection state; called whenever a new socket is opened */
+    reset(): void;
+}
+
+class JsonRpcCodec implements IProtocolCodec {
+    encode(message: JsonRpcRequest | JsonRpcNotification): string {
+        return JSON.stringify(message);
+    }
+
+    encodeBatch(messages: Array<JsonRpcRequest | JsonRpcNotification>): string[] {
+        // One text frame per message: the server does not accept JSON-RPC batch arrays
+        return messages.map(message => JSON.stringify(message));
+    }
+
+    decode(data: any): Array<JsonRpcResponse | JsonRpcNotification> {
+        const text = typeof data === 'string'
+            ? data
+            : (data instanceof ArrayBuffer || ArrayBuffer.isView(data))
+                ? new TextDecoder().decode(data as ArrayBuffer)
+                : data.toString();
+        return [JSON.parse(text)];
+    }
+
+    reset(): void {
+        // Stateless
+    }
+}
+
+function createCodec(protocol: Protocol | undefined): IProtocolCodec {
+    return protocol === Protocol.Binary ? new WKProtoCodec() : new JsonRpcCodec();
+}
+
+export { PacketType, WKPROTO_VERSION } from './wkproto';
+export { runAdapterConformance } from './conformance';
+export { redact, silentLogger } from './logger';
+export type { RandomSource } from './wkcrypto';
+export type { WKIMStats, LatencyStats, MessageCounters, ReconnectStats } from './stats';
+export { StreamFlag } from './stream';
+export type { DedupOptions, DedupStorage } from './dedup';
+export type { ChannelRef, SequenceRange } from './sequence';
+export { MemoryMessageStore, IndexedDBMessageStore, FileMessageStore } from './store';
+export type { IMessageStore, StoredMessage, MessageQuery, FileSystem, FileMessageStoreOptions, IndexedDBEnvironment } from './store';
+export type { Conversation, ConversationManager, ConversationSyncItem } from './conversation';
+export type { ReceiptEvent, ReceiptReport } from './receipt';
+export type { StreamWriter, StreamEvent } from './stream';
+export type { Logger, LogLevel } from './logger';
+export type { AdapterConformanceOptions, AdapterConformanceReport, AdapterConformanceCheck } from './conformance';
+
 // --- Enums and Types ---
 
 /**
@@ -530,6 +629,82 @@ export enum Event {
     Reconnecting = 'reconnecting',
     /** Received a custom event notification from the server */
     CustomEvent = 'customevent',
+    /** The auth.tokenProvider failed to supply a token */
+    TokenRefreshFailed = 'tokenrefreshfailed',
+    /** The connection state changed (see ConnectionState) */
+    StateChange = 'statechange',
+    /** The server closed the session for good (signed in on another device, banned, ...); see KickedEvent */
+    Kicked = 'kicked',
+    /** The server rejected the token; reconnection stops until connect() is called with fresh credentials */
+    AuthExpired = 'authexpired',
+    /** The estimated server clock offset changed by at least clockSkewThreshold; see ClockSkewEvent */
+    ClockSkew = 'clockskew',
+    /** Periodic metrics snapshot (see WKIMOptions.statsInterval and getStats()) */
+    Stats = 'stats',
+    /** The first chunk of a received message stream was applied; see StreamEvent */
+    StreamStart = 'streamstart',
+    /** A received stream chunk was applied in order; `delta` holds its payload */
+    StreamDelta = 'streamdelta',
+    /** A received stream finished; `content` and `chunks` hold the assembled result */
+    StreamEnd = 'streamend',
+    /** A delivered or sent message with `expire` reached the end of its lifetime; remove it from the UI */
+    MessageExpired = 'messageexpired',
+    /** A jump in a channel's messageSeq revealed missed messages; see SequenceGapEvent */
+    SequenceGap = 'sequencegap',
+    /** A conversation's last message, unread count or mute state changed; see WKIM.conversations */
+    ConversationUpdate = 'conversationupdate',
+    /** Read status of a message changed (a 'message.read' event notification); see ReceiptEvent */
+    Receipt = 'receipt',
+}
+
+/**
+ * Connection lifecycle states exposed via `WKIM.state` and Event.StateChange
+ */
+export enum ConnectionState {
+    /** Initialized, connect() not called yet */
+    Idle = 'idle',
+    /** Fetching a token or opening the WebSocket */
+    Connecting = 'connecting',
+    /** WebSocket open, waiting for the connect ack */
+    Authenticating = 'authenticating',
+    /** Authenticated and ready to send/receive */
+    Connected = 'connected',
+    /** Waiting for the next reconnect attempt */
+    Reconnecting = 'reconnecting',
+    /** Not connected and not going to reconnect on its own */
+    Disconnected = 'disconnected',
+    /** destroy() was called; the instance cannot be used anymore */
+    Destroyed = 'destroyed',
+}
+
+/**
+ * Payload of Event.StateChange
+ */
+export interface StateChangeEvent {
+    previous: ConnectionState;
+    next: ConnectionState;
+    /** Human-readable reason for the transition */
+    cause: string;
+}
+
+/**
+ * Payload of Event.Kicked and Event.AuthExpired
+ */
+export interface KickedEvent {
+    reasonCode: ReasonCode;
+    reason: string;
+}
+
+/**
+ * Payload of Event.ClockSkew
+ */
+export interface ClockSkewEvent {
+    /** New estimate of server clock minus local clock, in ms */
+    offset: number;
+    /** Previously reported offset, in ms (0 before the first report) */
+    previousOffset: number;
+    /** Round-trip time of the sample behind the estimate, in ms */
+    rtt: number | null;
 }
 
 /**
@@ -591,6 +766,47 @@ export enum ReasonCode {
     SendBan = 25,
 }
 
+/**
+ * Whether each reason code is transient (worth reconnecting) or fatal (needs user action).
+ * Typed as a Record so every new ReasonCode has to be classified here.
+ */
+const RETRYABLE_REASON_CODES: Record<ReasonCode, boolean> = {
+    [ReasonCode.Unknown]: true,
+    [ReasonCode.Success]: true,
+    [ReasonCode.AuthFail]: false,
+    [ReasonCode.SubscriberNotExist]: false,
+    [ReasonCode.InBlacklist]: false,
+    [ReasonCode.ChannelNotExist]: false,
+    [ReasonCode.UserNotOnNode]: true,
+    [ReasonCode.SenderOffline]: true,
+    [ReasonCode.MsgKeyError]: true,
+    [ReasonCode.PayloadDecodeError]: true,
+    [ReasonCode.ForwardSendPacketError]: true,
+    [ReasonCode.NotAllowSend]: false,
+    [ReasonCode.ConnectKick]: false,
+    [ReasonCode.NotInWhitelist]: false,
+    [ReasonCode.QueryTokenError]: true,
+    [ReasonCode.SystemError]: true,
+    [ReasonCode.ChannelIDError]: false,
+    [ReasonCode.NodeMatchError]: true,
+    [ReasonCode.NodeNotMatch]: true,
+    [ReasonCode.Ban]: false,
+    [ReasonCode.NotSupportHeader]: false,
+    [ReasonCode.ClientKeyIsEmpty]: false,
+    [ReasonCode.RateLimit]: true,
+    [ReasonCode.NotSupportChannelType]: false,
+    [ReasonCode.Disband]: false,
+    [ReasonCode.SendBan]: false,
+};
+
+/**
+ * Returns true if a connection closed or refused with this reason code may succeed on retry.
+ * Fatal codes (ConnectKick, Ban, AuthFail, ...) stop reconnection. Unrecognised codes are treated as retryable.
+ */
+export function isRetryableReasonCode(code: ReasonCode | number): boolean {
+    return RETRYABLE_REASON_CODES[code as ReasonCode] ?? true;
+}
+
 /**
  * Device Flag Enum based on WuKongIM protocol
  */
@@ -605,26 +821,82 @@ export enum DeviceFlag {
 
 interface AuthOptions {
     uid: string;
-    token: string;
+    token?: string;
     deviceId?: string;
     deviceFlag?: DeviceFlag | number; // 0:App, 1:Web, 2:Desktop etc.
+    /**
+     * Optional token source, called before every connect/reconnect and once more after an AuthFail.
+     * When provided, `token` may be omitted.
+     */
+    tokenProvider?: () => Promise<string>;
 }
 
-interface ConnectResult {
+export interface ConnectResult {
     serverKey: string;
     salt: string;
     timeDiff: number;
     reasonCode: ReasonCode;
     serverVersion?: number;
     nodeId?: number;
+    /** The server endpoint this connection was established with (added by the SDK) */
+    endpoint?: string;
 }
 
-interface SendResult {
+export interface SendResult {
     messageId: string;
     messageSeq: number;
     reasonCode: ReasonCode;
 }
 
+/**
+ * Subscription action carried by a SubscriptionResult
+ */
+export enum SubscribeAction {
+    /** Subscribe to the channel */
+    Subscribe = 0,
+    /** Unsubscribe from the channel */
+    Unsubscribe = 1,
+}
+
+/**
+ * How received messages are acknowledged (recvack) to the server:
+ * - 'auto': right after Event.Message listeners have been called (default)
+ * - 'manual': only when the app calls `message.ack()`, e.g. after persisting it
+ * - 'batched': automatically, coalesced over `ackBatchWindow` ms
+ */
+export type AckMode = 'auto' | 'manual' | 'batched';
+
+/**
+ * Cancellation and deadline options accepted by send() and other request methods
+ */
+export interface RequestOptions {
+    /** Aborts the call; it then rejects with an AbortError */
+    signal?: AbortSignal;
+    /** Time to wait for the server's reply in ms (default: 15000; 0 waits indefinitely) */
+    timeoutMs?: number;
+}
+
+/**
+ * Options for subscribe()
+ */
+export interface SubscribeOptions {
+    /** Optional subscription parameter passed through to the server */
+    param?: string;
+    header?: Header;
+    setting?: MessageSetting;
+}
+
+/**
+ * Result of a subscribe/unsubscribe request
+ */
+export interface SubscriptionResult {
+    subNo: string;
+    channelId: string;
+    channelType: number;
+    action: SubscribeAction;
+    reasonCode: ReasonCode;
+}
+
 export interface Header {
     noPersist?: boolean;
     redDot?: boolean;
@@ -659,8 +931,24 @@ export interface RecvMessage {
     payload: any; // Business-defined payload
     // Optional fields based on protocol version/settings
     clientMsgNo?: string;
+    /** Message verification key (secure mode) */
+    msgKey?: string;
+    /** Lifetime in seconds after `timestamp`; 0 or absent means the message never expires (protocol version >= 3) */
+    expire?: number;
+    /** Local time (ms since epoch) at which the message expires, derived from `expire` and the server clock offset */
+    expiresAt?: number;
+    /** Acknowledges the message to the server; only set when ackMode is 'manual'. Safe to call more than once. */
+    ack?: () => void;
     /** Message settings consolidating stream/topic/flags */
     setting?: MessageSetting;
+    /** Message topic (setting.topic), e.g. a thread within a ChannelType.CommunityTopic channel */
+    topic?: string;
+    /** Stream number (setting.stream, protocol version >= 2) */
+    streamNo?: string;
+    /** Position of the chunk within its stream (setting.stream, protocol version >= 2) */
+    streamId?: string;
+    /** Stream phase of the chunk (setting.stream, protocol version >= 2) */
+    streamFlag?: StreamFlag;
 }
 
 /**
@@ -680,6 +968,88 @@ export interface EventNotification {
     data: string | any;
 }
 
+export interface DisconnectEvent {
+    /** WebSocket close code (socket closed) */
+    code?: number;
+    /** Close reason, or the server's reason for a disconnect notification */
+    reason?: string;
+    /** Server reason code (disconnect notification) */
+    reasonCode?: ReasonCode;
+}
+
+export interface ReconnectingEvent {
+    /** 1-based attempt number */
+    attempt: number;
+    /** Delay before this attempt, in ms */
+    delay: number;
+}
+
+export interface SequenceGapEvent {
+    channel: ChannelRef;
+    /** First missing messageSeq (inclusive) */
+    from: number;
+    /** Last missing messageSeq (inclusive) */
+    to: number;
+}
+
+/**
+ * Fetches the messages of a channel in a sequence range, e.g. via WuKongIM's /channel/messagesync REST API.
+ * `range.to` is undefined when everything after `range.from` is wanted.
+ */
+export type SyncProvider = (range: SequenceRange) => Promise<RecvMessage[]>;
+
+/**
+ * Fetches the conversation list, e.g. by calling WuKongIM's `/conversation/sync` endpoint and
+ * mapping channel_id/channel_type/unread/timestamp/last_msg_seq to ConversationSyncItem.
+ */
+export type ConversationSyncProvider = () => Promise<ConversationSyncItem[]>;
+
+/**
+ * Reports messages as read to the server, e.g. by calling your app server's `/message/readed` endpoint.
+ * The server is expected to notify the senders with a 'message.read' event notification (ReceiptReport data).
+ */
+export type ReceiptReporter = (channel: ChannelRef, messageIds: string[]) => Promise<void>;
+
+/** Event notification type carrying a ReceiptReport */
+export const RECEIPT_EVENT_TYPE = 'message.read';
+
+export interface SendAckEvent extends SendResult {
+    clientMsgNo: string;
+    channelId: string;
+    channelType: number;
+}
+
+/**
+ * Payload type of every SDK event, used to type on()/once()/waitFor() listeners.
+ */
+export interface WKIMEventMap {
+    [Event.Connect]: ConnectResult;
+    [Event.Disconnect]: DisconnectEvent;
+    [Event.Message]: RecvMessage;
+    [Event.Error]: Error;
+    [Event.SendAck]: SendAckEvent;
+    [Event.Reconnecting]: ReconnectingEvent;
+    [Event.CustomEvent]: EventNotification;
+    [Event.TokenRefreshFailed]: Error;
+    [Event.StateChange]: StateChangeEvent;
+    [Event.Kicked]: KickedEvent;
+    [Event.AuthExpired]: KickedEvent;
+    [Event.ClockSkew]: ClockSkewEvent;
+    [Event.Stats]: WKIMStats;
+    [Event.StreamStart]: StreamEvent;
+    [Event.StreamDelta]: StreamEvent;
+    [Event.StreamEnd]: StreamEvent;
+    [Event.MessageExpired]: RecvMessage;
+    [Event.SequenceGap]: SequenceGapEvent;
+    [Event.ConversationUpdate]: Conversation;
+    [Event.Receipt]: ReceiptEvent;
+}
+
+export type EventListener<E extends Event> = (payload: WKIMEventMap[E]) => void;
+
+/** Listener registered with on('*', ...); receives every event */
+export type WildcardListener = (eventName: Event, payload: WKIMEventMap[Event]) => void;
+
 interface ErrorObject {
     code: number;
     message: string;
@@ -703,13 +1073,155 @@ interface JsonRpcNotification {
     params: any;
 }
 
+/**
+ * Offline outbox configuration.
+ * When enabled, send() queues messages while disconnected or reconnecting
+ * and flushes them in order once the connection is authenticated again.
+ */
+export interface OutboxOptions {
+    /** Maximum number of queued messages (default: 100) */
+    maxSize?: number;
+    /** Maximum time in milliseconds a message may wait in the outbox (default: 60000) */
+    maxAge?: number;
+    /** What to do when the outbox is full: reject the new message or drop the oldest one (default: 'reject-new') */
+    dropPolicy?: 'reject-new' | 'drop-oldest';
+}
+
+/**
+ * Custom reconnect strategy.
+ * Receives the 1-based attempt number and the error that caused the previous failure,
+ * and returns the delay in milliseconds before the next attempt, or `false` to give up.
+ */
+export type ReconnectStrategy = (attempt: number, lastError: Error | null) => number | false;
+
+/**
+ * Reconnection policy configuration
+ */
+export interface ReconnectOptions {
+    /** Maximum number of attempts before giving up; use Infinity for unlimited (default: 5) */
+    maxAttempts?: number;
+    /** Delay before the first attempt in milliseconds (default: 1000) */
+    initialDelay?: number;
+    /** Upper bound for the delay in milliseconds (default: 30000) */
+    maxDelay?: number;
+    /** Exponential backoff multiplier (default: 2) */
+    factor?: number;
+    /**
+     * Randomization applied to the delay (default: 'none')
+     * - 'full': random delay between 0 and the exponential delay
+     * - 'decorrelated': random delay between initialDelay and 3x the previous delay
+     */
+    jitter?: 'none' | 'full' | 'decorrelated';
+    /** Custom strategy; when set it replaces maxAttempts and the built-in backoff entirely */
+    strategy?: ReconnectStrategy;
+}
+
+/**
+ * Resolves the server URL for a connection attempt, e.g. by calling WuKongIM's `/route` HTTP endpoint.
+ * `attempt` is 0 for the initial connect and the reconnect attempt number afterwards.
+ */
+export type UrlResolver = (attempt: number) => string | Promise<string>;
+
+/**
+ * Options accepted by WKIM.init()
+ */
+export interface WKIMOptions {
+    /** Replace any previous global instance (default: true) */
+    singleton?: boolean;
+    /** Queue messages sent while disconnected; `true` uses the default OutboxOptions */
+    outbox?: boolean | OutboxOptions;
+    /** Reconnection policy */
+    reconnect?: ReconnectOptions;
+    /**
+     * Watch network (online/offline) and app foreground/background events to pause
+     * the reconnect backoff while offline and reconnect immediately when back (default: true)
+     */
+    lifecycle?: boolean;
+    /**
+     * Resolve the server URL before every connect/reconnect. If it fails, the last
+     * successfully connected endpoint (or the static URL list) is used instead.
+     */
+    resolveUrl?: UrlResolver;
+    /** Wire protocol (default: Protocol.JsonRpc) */
+    protocol?: Protocol;
+    /**
+     * Secure mode: exchange Curve25519 keys during connect, encrypt outgoing payloads with the
+     * derived AES key and verify/decrypt incoming ones (default: false)
+     */
+    encryption?: boolean;
+    /**
+     * CSPRNG for secure mode key pairs, for runtimes without crypto.getRandomValues
+     * (default: WebCrypto, or Node's crypto module)
+     */
+    randomSource?: RandomSource;
+    /**
+     * Custom WebSocket adapter factory, overriding platform detection
+     * (e.g. React Native with custom TLS, Deno, Bun, Electron main process, Taro, ByteDance mini programs)
+     */
+    webSocketFactory?: WebSocketFactory;
+    /** Minimum change of the server clock offset (ms) that emits Event.ClockSkew (default: 1000) */
+    clockSkewThreshold?: number;
+    /** How received messages are acknowledged (default: 'auto') */
+    ackMode?: AckMode;
+    /** Coalescing window for ackMode 'batched', in ms (default: 200) */
+    ackBatchWindow?: number;
+    /** Log sink, e.g. console or an adapter for pino/winston (default: console) */
+    logger?: Logger;
+    /** Minimum level that reaches the logger (default: 'warn'); tokens, keys and payloads are always redacted */
+    logLevel?: LogLevel;
+    /** Interval (ms) at which Event.Stats is emitted after connect(); 0 disables it (default: 0) */
+    statsInterval?: number;
+    /** How long (ms) a received stream waits for a missing chunk before skipping it (default: 3000) */
+    streamGapTimeout?: number;
+    /** How long (ms) a received stream may go without any chunk before it is ended without its End chunk (default: 30000) */
+    streamIdleTimeout?: number;
+    /** Drop redelivered messages by messageId/clientMsgNo; `true` uses the default DedupOptions (default: true) */
+    dedup?: boolean | DedupOptions;
+    /** Backfills missed messages after a reconnect; results are delivered through Event.Message in order */
+    syncProvider?: SyncProvider;
+    /** Persists sent and received messages, e.g. new IndexedDBMessageStore(`wkim-${uid}`) (default: none) */
+    messageStore?: IMessageStore;
+    /** Hydrates WKIM.conversations from the server on every connect (default: none) */
+    conversationSync?: ConversationSyncProvider;
+    /** Delivers markAsRead() reports to the server (default: none; markAsRead() rejects) */
+    receiptReporter?: ReceiptReporter;
+}
+
+type OutboxEntry = {
+    seq: number;
+    params: any;
+    requestOptions: RequestOptions;
+    enqueuedAt: number;
+    attempts: number;
+    resolve: (value: SendResult) => void;
+    reject: (reason?: any) => void;
+    expireTimer: NodeJS.Timeout | null;
+};
+
 type PendingRequest = {
     resolve: (value: any) => void;
     reject: (reason?: any) => void;
-    timeoutTimer: NodeJS.Timeout;
+    timeoutTimer: NodeJS.Timeout | undefined;
 };
 
-type EventHandler = (...args: any[]) => void;
+const DEFAULT_REQUEST_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Creates the standard AbortError (a DOMException where available, as fetch() does).
+ */
+function createAbortError(message = "The operation was aborted."): Error {
+    if (typeof DOMException !== 'undefined') {
+        return new DOMException(message, 'AbortError') as Error;
+    }
+    const error = new Error(message);
+    error.name = 'AbortError';
+    return error;
+}
+
+type EventHandler = ((...args: any[]) => void) & {
+    /** The user's callback when this handler is a once() wrapper, so off(callback) can find it */
+    listener?: (...args: any[]) => void;
+};
 
 // --- WKIM Class ---
 
@@ -717,9 +1229,69 @@ export class WKIM {
     private static globalInstance: WKIM | null = null;
 
     private ws: IWebSocketAdapter | null = null;
-    private url: string;
+    private codec: IProtocolCodec;
+    private endpoints: string[];
+    private endpointIndex: number = 0;
+    private activeEndpoint: string | null = null;
+    private lastGoodEndpoint: string | null = null;
+    private urlResolver: UrlResolver | null;
     private auth: AuthOptions;
+    private encryption: boolean;
+    private randomSource: RandomSource | undefined;
+    private webSocketFactory: WebSocketFactory | null;
+    private secureSession: SecureSession | null = null; // Per-connection keys (secure mode)
+    private clientSeq: number = 0;
+    private logger: Logger;
+
+    // Server clock offset estimation
+    private clock: ClockSync = new ClockSync();
+    private clockSkewThreshold: number;
+    private reportedClockOffset: number = 0;
+
+    // Receive acknowledgement
+    private ackMode: AckMode;
+    private ackBatchWindow: number;
+    private pendingAcks: Map<string, { header: Header; messageId: string; messageSeq: number }> = new Map();
+    private ackTimer: NodeJS.Timeout | null = null;
+    private ACK_BATCH_MAX_SIZE = 100; // Flush early when this many acks are waiting
+
+    // Metrics
+    private stats: StatsCollector = new StatsCollector();
+    private statsInterval: number;
+    private statsTimer: NodeJS.Timeout | null = null;
+
+    // Reassembles received message streams
+    private streamAssembler: StreamAssembler;
+
+    // Recently received message keys (null when dedup is disabled)
+    private dedup: DedupCache | null = null;
+
+    // Manual ack mode: messageIds delivered to the app but not acknowledged yet
+    private unackedMessages: Set<string> = new Set();
+
+    // Per-channel messageSeq high-water marks and missing ranges
+    private sequences: SequenceTracker = new SequenceTracker();
+    private syncProvider: SyncProvider | null;
+
+    // Delivered and sent messages waiting for their expire time
+    private expiryQueue: ExpiryQueue<RecvMessage> = new ExpiryQueue(message => {
+        this.emit(Event.MessageExpired, message);
+        this.unpersistMessage(message.messageId);
+        this.conversationManager.removeMessage(message);
+    });
+
+    // Local copy of sent and received messages (null when no store is configured)
+    private store: IMessageStore | null;
+
+    // Recent conversations built from sent and received messages
+    private conversationManager: ConversationManager = new ConversationManager(conversation => this.emit(Event.ConversationUpdate, conversation));
+    private conversationSync: ConversationSyncProvider | null;
+
+    // Read status of messages, and the messages this client marked as read
+    private receipts: ReceiptTracker = new ReceiptTracker();
+    private receiptReporter: ReceiptReporter | null;
     public isConnected: boolean = false;
+    private _state: ConnectionState = ConnectionState.Idle;
     private connectionPromise: { resolve: (value: void | PromiseLike<void>) => void; reject: (reason?: any) => void; } | null = null;
     private pingInterval: NodeJS.Timeout | null = null;
     private pingTimeout: NodeJS.Timeout | null = null;
@@ -727,20 +1299,79 @@ export class WKIM {
     private PONG_TIMEOUT_MS = 10 * 1000; // Expect pong within 10 seconds
 
     private pendingRequests: Map<string, PendingRequest> = new Map();
-    private eventListeners: Map<Event, EventHandler[]> = new Map();
+    private eventListeners: Map<Event | '*', EventHandler[]> = new Map();
+    private topicListeners: Map<string, EventListener<Event.Message>[]> = new Map(); // Keyed by topicKey()
+
+    // Active channel subscriptions, replayed after every successful (re)connect
+    private subscriptions: Map<string, { channelId: string; channelType: number; options: SubscribeOptions }> = new Map();
+
+    // Offline outbox (null when disabled)
+    private outboxOptions: Required<OutboxOptions> | null = null;
+    private outbox: OutboxEntry[] = [];
+    private outboxSeq: number = 0;
 
     // Reconnection properties
     private reconnectAttempts: number = 0;
-    private maxReconnectAttempts: number = 5;
-    private initialReconnectDelay: number = 1000;
+    private reconnectOptions: Required<Omit<ReconnectOptions, 'strategy'>> & Pick<ReconnectOptions, 'strategy'>;
+    private lastReconnectDelay: number = 0;
+    private reconnectTimer: NodeJS.Timeout | null = null;
     private isReconnecting: boolean = false;
     private manualDisconnect: boolean = false;
+    private isPreparingConnect: boolean = false;
+    private authRetried: boolean = false;
+    private reconnectExhausted: boolean = false;
     private sessionId: string;
     private beforeUnloadHandler: (() => void) | null = null;
 
-    private constructor(url: string, auth: AuthOptions) {
-        this.url = url;
+    // Network/app lifecycle tracking
+    private networkOffline: boolean = false;
+    private appHidden: boolean = false;
+    private lifecycleCleanups: Array<() => void> = [];
+    private HEALTH_CHECK_TIMEOUT_MS = 5 * 1000; // Ping timeout when resuming from offline/background
+
+    private constructor(url: string | string[], auth: AuthOptions, options: WKIMOptions = {}) {
+        this.endpoints = (Array.isArray(url) ? url : [url]).filter(Boolean);
+        this.urlResolver = options.resolveUrl || null;
+        this.logger = createLogger(options.logger || defaultLogSink(), options.logLevel ?? 'warn');
+        this.codec = createCodec(options.protocol);
+        this.encryption = options.encryption ?? false;
+        this.randomSource = options.randomSource;
+        this.webSocketFactory = options.webSocketFactory || null;
+        this.clockSkewThreshold = options.clockSkewThreshold ?? 1000;
+        this.ackMode = options.ackMode ?? 'auto';
+        this.ackBatchWindow = options.ackBatchWindow ?? 200;
+        this.statsInterval = options.statsInterval ?? 0;
+        this.syncProvider = options.syncProvider || null;
+        this.store = options.messageStore || null;
+        this.conversationSync = options.conversationSync || null;
+        this.receiptReporter = options.receiptReporter || null;
+        this.streamAssembler = new StreamAssembler({
+            onStart: event => this.emit(Event.StreamStart, event),
+            onDelta: event => this.emit(Event.StreamDelta, event),
+            onEnd: event => this.emit(Event.StreamEnd, event),
+        }, options.streamGapTimeout ?? 3000, options.streamIdleTimeout ?? 30000);
         this.auth = auth || {};
+        if (options.dedup !== false) {
+            const dedup = options.dedup === true || options.dedup === undefined ? {} : options.dedup;
+            this.dedup = new DedupCache(dedup, `wkim:dedup:${this.auth.uid}`);
+        }
+        if (options.outbox) {
+            const outbox = options.outbox === true ? {} : options.outbox;
+            this.outboxOptions = {
+                maxSize: outbox.maxSize ?? 100,
+                maxAge: outbox.maxAge ?? 60 * 1000,
+                dropPolicy: outbox.dropPolicy ?? 'reject-new',
+            };
+        }
+        const reconnect = options.reconnect || {};
+        this.reconnectOptions = {
+            maxAttempts: reconnect.maxAttempts ?? 5,
+            initialDelay: reconnect.initialDelay ?? 1000,
+            maxDelay: reconnect.maxDelay ?? 30 * 1000,
+            factor: reconnect.factor ?? 2,
+            jitter: reconnect.jitter ?? 'none',
+            strategy: reconnect.strategy,
+        };
         this.sessionId = this.generateUUID(); // Unique session identifier
 
         // Ensure unique deviceId for each session
@@ -749,30 +1380,40 @@ export class WKIM {
         }
         // Ensure Event enum values are used for internal map keys
         Object.values(Event).forEach(event => this.eventListeners.set(event, []));
+        this.eventListeners.set('*', []);
 
         // Setup beforeunload handler to cleanup connection on page refresh/close
         this.setupBeforeUnloadHandler();
+
+        if (options.lifecycle !== false) {
+            this.setupLifecycleHandlers();
+        }
     }
 
     /**
      * Initializes the WKIM instance.
-     * @param url WebSocket server URL (e.g., "ws://localhost:5100")
+     * @param url WebSocket server URL (e.g., "ws://localhost:5100"), or a list of URLs to fail over between
+     *            (may be empty when `options.resolveUrl` is given)
      * @param auth Authentication options { uid, token, ... }
-     * @param options Configuration options { singleton: boolean }
+     * @param options Configuration options { singleton, outbox, reconnect, lifecycle, resolveUrl, protocol, encryption, randomSource, webSocketFactory, clockSkewThreshold, ackMode, ackBatchWindow, logger, logLevel, statsInterval, streamGapTimeout, streamIdleTimeout, dedup, syncProvider, messageStore, conversationSync, receiptReporter }
      * @returns A WKIM instance
      */
-    public static init(url: string, auth: AuthOptions, options: { singleton?: boolean } = {}): WKIM {
-        if (!url || !auth || !auth.uid || !auth.token) {
+    public static init(url: string | string[], auth: AuthOptions, options: WKIMOptions = {}): WKIM {
+        const hasUrl = Array.isArray(url) ? url.some(Boolean) : !!url;
+        if ((!hasUrl && !options.resolveUrl) || !auth || !auth.uid || (!auth.token && !auth.tokenProvider)) {
             throw new Error("URL, uid, and token are required for initialization.");
         }
+        if (options.encryption && !hasSecureRandom(options.randomSource)) {
+            throw new Error("Secure mode requires a cryptographically secure random source; pass options.randomSource.");
+        }
 
         // If singleton mode is enabled and there's an existing instance, disconnect it first
         if (options.singleton && WKIM.globalInstance) {
-            console.log("Destroying previous global instance...");
+            WKIM.globalInstance.logger.info("Destroying previous global instance...");
             WKIM.globalInstance.destroy();
         }
 
-        const instance = new WKIM(url, auth);
+        const instance = new WKIM(url, auth, options);
 
         if (options.singleton !== false) {
             WKIM.globalInstance = instance;
@@ -788,8 +1429,8 @@ export class WKIM {
      */
     public connect(): Promise<void> {
         return new Promise((resolve, reject) => {
-             if (this.isConnected || this.ws?.readyState === WS_CONNECTING) {
-                console.warn("Connection already established or in progress.");
+             if (this.isConnected || this.isPreparingConnect || this.ws?.readyState === WS_CONNECTING) {
+                this.logger.warn("Connection already established or in progress.");
                 // If already connected, resolve immediately. If connecting, wait for existing promise.
                 if (this.isConnected) {
                     resolve();
@@ -804,173 +1445,649 @@ export class WKIM {
 
             // On a new connect call, reset manual disconnect flag
             this.manualDisconnect = false;
+            this.startStatsTimer();
 
             this.connectionPromise = { resolve, reject };
+            this.setState(ConnectionState.Connecting, this.isReconnecting ? `Reconnect attempt ${this.reconnectAttempts}` : "connect() called");
 
-            try {
-                console.log(`Connecting to ${this.url}... (Platform: ${getPlatform()})`);
-                this.ws = createWebSocket(this.url);
-
-                this.ws.onopen = () => {
-                    console.log("WebSocket connection opened. Authenticating...");
-                    this.sendConnectRequest();
-                };
-
-                this.ws.onmessage = (event) => {
-                    this.handleMessage(event.data);
-                };
-
-                this.ws.onerror = (event: any) => {
-                    const errorMessage = event.message || (event.error ? event.error.message : 'WebSocket error');
-                    console.error("WebSocket error:", errorMessage, event);
-                    this.emit(Event.Error, event.error || new Error(errorMessage));
-                    // The 'onclose' event will be fired next, which will handle cleanup and reconnection logic.
-                };
-
-                this.ws.onclose = (event) => {
-                    const wasConnected = this.isConnected;
-                    console.log(`WebSocket connection closed. Code: ${event.code}, Reason: ${event.reason}`);
+            if (!this.auth.tokenProvider && !this.urlResolver) {
+                this.openSocket(this.endpoints[this.endpointIndex]);
+                return;
+            }
 
-                    if (this.connectionPromise && !this.isConnected) { // Reject connect promise if closed before connect ack
-                        this.connectionPromise.reject(new Error(`Connection closed before authentication (Code: ${event.code})`));
+            this.isPreparingConnect = true;
+            this.refreshToken()
+                .then(() => this.resolveEndpoint())
+                .then(url => {
+                    this.isPreparingConnect = false;
+                    // Bail out if disconnect() was called while the token/URL was being fetched
+                    if (this.manualDisconnect || !this.connectionPromise) {
+                        return;
                     }
-
-                    this.cleanupConnection(); // Clean up state like intervals, pending requests.
-                    this.emit(Event.Disconnect, { code: event.code, reason: event.reason });
-
-                    // Only try to reconnect if we were previously connected and it wasn't a manual disconnect.
-                    if (wasConnected && !this.manualDisconnect) {
-                        this.tryReconnect();
+                    this.openSocket(url);
+                })
+                .catch(error => {
+                    this.isPreparingConnect = false;
+                    if (this.connectionPromise) {
+                        this.connectionPromise.reject(error);
+                        this.connectionPromise = null;
                     }
-                };
-            } catch (error) {
-                console.error("Failed to create WebSocket:", error);
-                this.emit(Event.Error, error);
-                 if (this.connectionPromise) {
-                     this.connectionPromise.reject(error);
-                     this.connectionPromise = null;
-                 }
-                this.cleanupConnection();
-            }
+                    this.setState(this.isReconnecting ? ConnectionState.Reconnecting : ConnectionState.Disconnected, error.message);
+                });
         });
     }
 
     /**
-     * Disconnects from the server.
+     * Current connection state.
      */
-    public disconnect(): void {
-        console.log("Manual disconnect initiated.");
-        this.manualDisconnect = true;
-        this.isReconnecting = false; // Stop any ongoing reconnection attempts
-        this.cleanupBeforeUnloadHandler(); // Remove page unload listeners
-        this.handleDisconnect(true, "Manual disconnection");
+    public get state(): ConnectionState {
+        return this._state;
     }
 
     /**
-     * Completely destroys the SDK instance, cleaning up all resources.
-     * Call this when you no longer need the SDK instance.
+     * The server endpoint of the current (or most recent) connection attempt.
      */
-    public destroy(): void {
-        console.log("Destroying SDK instance...");
-        this.disconnect();
-        this.eventListeners.clear();
-        this.pendingRequests.clear();
-
-        // Clear global instance if this is it
-        if (WKIM.globalInstance === this) {
-            WKIM.globalInstance = null;
-        }
+    public get endpoint(): string | null {
+        return this.activeEndpoint;
     }
 
     /**
-     * Sends a message to a specific channel.
-     * @param channelId Target channel ID
-     * @param channelType Target channel type (e.g., WKIM.ChannelType.Person)
-     * @param payload Message payload (must be a JSON-serializable object)
-     * @param options Optional: { clientMsgNo, header, setting, msgKey, expire, topic }
-     * @returns Promise resolving with { messageId, messageSeq } on server ack, or rejecting on error.
+     * Current time on the server clock, in ms since the epoch.
+     * Based on the connect handshake's timeDiff; pongs carry no server time, so it is refreshed on every (re)connect.
      */
-    public send(
-        channelId: string,
-        channelType: ChannelType | number,
-        payload: object,
-        options: {
-            clientMsgNo?: string;
-            header?: Header; // Define Header type based on protocol if needed
-            setting?: any; // Define SettingFlags type based on protocol if needed
-            topic?: string;
-        } = {}
-    ): Promise<SendResult> {
-        if (!this.isConnected || !this.ws || this.ws.readyState !== WS_OPEN) {
-            return Promise.reject(new Error("Not connected. Call connect() first."));
-        }
-        if (typeof payload !== 'object' || payload === null) {
-             return Promise.reject(new Error("Payload must be a non-null object."));
-        }
+    public serverNow(): number {
+        return Date.now() + this.clock.offset;
+    }
 
-        const header = options.header || {};
-        header.redDot = true
+    /**
+     * Converts a server timestamp in seconds (e.g. RecvMessage.timestamp) to local time in ms,
+     * suitable for `new Date()` and comparison with Date.now().
+     */
+    public toLocalTime(serverTimestamp: number): number {
+        return serverTimestamp * 1000 - this.clock.offset;
+    }
 
+    /**
+     * Estimated server clock minus local clock, in ms.
+     */
+    public get clockOffset(): number {
+        return this.clock.offset;
+    }
 
-        const clientMsgNo = options.clientMsgNo || this.generateUUID(); // Generate a unique message ID if not provided
-        const params = {
-            clientMsgNo: clientMsgNo,
-            channelId: channelId,
-            channelType: channelType,
-            payload: this._encodePayloadToBase64(payload),
-            header: header,
-            topic: options.topic,
-            setting: options.setting,
-        };
+    /**
+     * The configured messageStore, or null. Read history with
+     * `getMessages({ channelId, channelType }, { beforeSeq, limit })`.
+     */
+    public get messageStore(): IMessageStore | null {
+        return this.store;
+    }
 
-        return this.sendRequest<SendResult>('send', params);
+    /**
+     * Recent conversations built from sent and received messages: `list()`, `get(channel)`,
+     * `markRead(channel)`, `setMuted(channel, muted)` and `totalUnread()`. Changes emit Event.ConversationUpdate.
+     */
+    public get conversations(): ConversationManager {
+        return this.conversationManager;
     }
 
     /**
-     * Registers an event listener.
-     * @param eventName The event to listen for (e.g., WKIM.Event.Message)
-     * @param callback The function to call when the event occurs
+     * Returns a snapshot of connection and messaging metrics (ping RTT, reconnects, message counts per
+     * channel type, send latency percentiles, bytes in/out and the last error) since the last resetStats().
      */
-    public on(eventName: Event, callback: EventHandler): void {
-        if (this.eventListeners.has(eventName)) {
-            this.eventListeners.get(eventName)?.push(callback);
-        } else {
-            console.warn(`Attempted to register listener for unknown event: ${eventName}`);
-        }
+    public getStats(): WKIMStats {
+        return this.stats.snapshot(this.pendingRequests.size);
     }
 
-     /**
-     * Removes an event listener.
-     * @param eventName The event to stop listening for
-     * @param callback The specific callback function to remove
+    /**
+     * Resets all counters and latency samples. An outage in progress keeps its start time.
      */
-    public off(eventName: Event, callback: EventHandler): void {
-         if (this.eventListeners.has(eventName)) {
-            const listeners = this.eventListeners.get(eventName);
-            if (listeners) {
-                 const index = listeners.indexOf(callback);
-                 if (index > -1) {
-                     listeners.splice(index, 1);
-                 }
-            }
-        }
+    public resetStats(): void {
+        this.stats.reset();
     }
 
-    // --- Private Methods ---
+    /**
+     * Updates authentication options (e.g. a renewed token) used by the next connect/reconnect.
+     * @param auth Partial authentication options { token, tokenProvider, deviceFlag, ... }
+     */
+    public updateAuth(auth: Partial<Omit<AuthOptions, 'uid'>>): void {
+        this.auth = { ...this.auth, ...auth };
+    }
 
-    private emit(eventName: Event, ...args: any[]): void {
-        const listeners = this.eventListeners.get(eventName);
-        if (listeners) {
-            listeners.forEach(callback => {
+    private openSocket(url: string): void {
+        this.activeEndpoint = url;
+        try {
+            this.logger.info(`Connecting to ${url}... (Platform: ${this.webSocketFactory ? 'custom' : getPlatform()})`);
+            this.codec.reset();
+            this.ws = this.webSocketFactory ? this.webSocketFactory(url) : createWebSocket(url, this.logger);
+            if ('binaryType' in this.ws) {
+                this.ws.binaryType = 'arraybuffer';
+            }
+
+            this.ws.onopen = () => {
+                this.logger.info("WebSocket connection opened. Authenticating...");
+                this.setState(ConnectionState.Authenticating, "WebSocket opened");
+                this.sendConnectRequest();
+            };
+
+            this.ws.onmessage = (event) => {
+                this.handleMessage(event.data);
+            };
+
+            this.ws.onerror = (event: any) => {
+                const errorMessage = event.message || (event.error ? event.error.message : 'WebSocket error');
+                this.logger.error("WebSocket error:", errorMessage, event);
+                this.emit(Event.Error, event.error || new Error(errorMessage));
+                // The 'onclose' event will be fired next, which will handle cleanup and reconnection logic.
+            };
+
+            this.ws.onclose = (event) => {
+                const wasConnected = this.isConnected;
+                this.logger.info(`WebSocket connection closed. Code: ${event.code}, Reason: ${event.reason}`);
+
+                if (this.connectionPromise && !this.isConnected) { // Reject connect promise if closed before connect ack
+                    this.connectionPromise.reject(new Error(`Connection closed before authentication (Code: ${event.code})`));
+                }
+                if (!wasConnected) {
+                    this.rotateEndpoint(); // This endpoint is unreachable, try the next one
+                }
+
+                // Only try to reconnect if we were previously connected and it wasn't a manual disconnect.
+                // Decided up front so the state goes straight to Reconnecting instead of passing through Disconnected.
+                const willReconnect = wasConnected && !this.manualDisconnect;
+                // Clean up state like intervals, pending requests.
+                this.cleanupConnection(`WebSocket closed (Code: ${event.code})`, willReconnect ? ConnectionState.Reconnecting : undefined);
+                this.emit(Event.Disconnect, { code: event.code, reason: event.reason });
+
+                if (willReconnect) {
+                    this.tryReconnect(new Error(`Connection closed (Code: ${event.code}, Reason: ${event.reason})`));
+                }
+            };
+        } catch (error) {
+            this.logger.error("Failed to create WebSocket:", error);
+            this.emit(Event.Error, error instanceof Error ? error : new Error(String(error)));
+            this.rotateEndpoint();
+             if (this.connectionPromise) {
+                 this.connectionPromise.reject(error);
+                 this.connectionPromise = null;
+             }
+            this.cleanupConnection("Failed to create WebSocket");
+        }
+    }
+
+    /**
+     * Determines the URL for the next connection attempt: the resolveUrl callback if configured,
+     * falling back to the last good endpoint or the static URL list when it fails.
+     */
+    private resolveEndpoint(): Promise<string> {
+        const staticUrl = this.endpoints[this.endpointIndex];
+        const resolver = this.urlResolver;
+        if (!resolver) {
+            return Promise.resolve(staticUrl);
+        }
+        return Promise.resolve()
+            .then(() => resolver(this.reconnectAttempts))
+            .then(url => {
+                if (!url) {
+                    throw new Error("resolveUrl returned an empty URL");
+                }
+                return url;
+            })
+            .catch(error => {
+                const fallback = this.lastGoodEndpoint || staticUrl;
+                if (fallback) {
+                    this.logger.warn(`resolveUrl failed, falling back to ${fallback}:`, error);
+                    return fallback;
+                }
+                const resolveError = new Error(`Failed to resolve server URL: ${error?.message || error}`);
+                this.emit(Event.Error, resolveError);
+                throw resolveError;
+            });
+    }
+
+    /**
+     * Advances to the next static endpoint after a failed connection attempt.
+     */
+    private rotateEndpoint(): void {
+        if (this.endpoints.length > 1) {
+            this.endpointIndex = (this.endpointIndex + 1) % this.endpoints.length;
+            this.logger.info(`Switching to next endpoint: ${this.endpoints[this.endpointIndex]}`);
+        }
+    }
+
+    /**
+     * Fetches a fresh token from auth.tokenProvider and stores it for the connect request.
+     * Emits Event.TokenRefreshFailed (and Event.Error) if the provider throws or returns nothing.
+     */
+    private refreshToken(): Promise<void> {
+        const provider = this.auth.tokenProvider;
+        if (!provider) {
+            return Promise.resolve();
+        }
+        return Promise.resolve()
+            .then(() => provider())
+            .then(token => {
+                if (!token) {
+                    throw new Error("tokenProvider returned an empty token");
+                }
+                this.auth.token = token;
+            })
+            .catch(error => {
+                const refreshError = new Error(`Token refresh failed: ${error?.message || error}`);
+                this.logger.error("Token refresh failed:", error);
+                this.emit(Event.TokenRefreshFailed, refreshError);
+                this.emit(Event.Error, refreshError);
+                throw refreshError;
+            });
+    }
+
+    /**
+     * Disconnects from the server.
+     */
+    public disconnect(): void {
+        this.logger.info("Manual disconnect initiated.");
+        this.manualDisconnect = true;
+        this.isReconnecting = false; // Stop any ongoing reconnection attempts
+        this.clearReconnectTimer();
+        this.stopStatsTimer();
+        this.stats.abandonOutage();
+        this.cleanupBeforeUnloadHandler(); // Remove page unload listeners
+        this.handleDisconnect(true, "Manual disconnection");
+    }
+
+    /**
+     * Reconnects immediately, skipping any pending backoff delay and resetting the attempt counter.
+     * Useful for a "retry" button after the SDK has given up reconnecting.
+     * If this attempt fails, the regular reconnection policy takes over.
+     */
+    public reconnectNow(): Promise<void> {
+        this.clearReconnectTimer();
+        this.reconnectAttempts = 0;
+        this.lastReconnectDelay = 0;
+        this.reconnectExhausted = false;
+        if (this.isConnected) {
+            return Promise.resolve();
+        }
+
+        this.logger.info("Manual reconnect requested.");
+        return this.connect().catch(error => {
+            if (!this.manualDisconnect) {
+                this.isReconnecting = true;
+                this.scheduleReconnect(error);
+            }
+            throw error;
+        });
+    }
+
+    /**
+     * Completely destroys the SDK instance, cleaning up all resources.
+     * Call this when you no longer need the SDK instance.
+     */
+    public destroy(): void {
+        this.logger.info("Destroying SDK instance...");
+        this.disconnect();
+        this.cleanupLifecycleHandlers();
+        this.setState(ConnectionState.Destroyed, "destroy() called");
+        this.eventListeners.clear();
+        this.pendingRequests.clear();
+        this.subscriptions.clear();
+        this.streamAssembler.clear();
+        this.topicListeners.clear();
+        this.expiryQueue.clear();
+        this.sequences.clear();
+        this.unackedMessages.clear();
+        this.conversationManager.clear();
+        this.receipts.clear();
+        this.dedup?.flush();
+
+        // Disable the outbox before the sends rejected by disconnect() settle, so they are not re-queued
+        this.outboxOptions = null;
+        this.rejectOutbox(new Error("SDK instance destroyed"));
+
+        // Clear global instance if this is it
+        if (WKIM.globalInstance === this) {
+            WKIM.globalInstance = null;
+        }
+    }
+
+    /**
+     * Sends a message to a specific channel.
+     * @param channelId Target channel ID
+     * @param channelType Target channel type (e.g., WKIM.ChannelType.Person)
+     * @param payload Message payload (must be a JSON-serializable object)
+     * @param options Optional: { clientMsgNo, header, setting, msgKey, expire, topic, receipt, streamNo, streamFlag, signal, timeoutMs }
+     * @returns Promise resolving with { messageId, messageSeq } on server ack, or rejecting on error.
+     * When the outbox is enabled, messages sent while disconnected are queued instead of rejected.
+     * Aborting `signal` rejects with an AbortError and removes a queued message from the outbox.
+     */
+    public send(
+        channelId: string,
+        channelType: ChannelType | number,
+        payload: object,
+        options: {
+            clientMsgNo?: string;
+            header?: Header; // Define Header type based on protocol if needed
+            setting?: any; // Define SettingFlags type based on protocol if needed
+            topic?: string;
+            receipt?: boolean; // Ask receivers for read receipts (sets setting.receipt)
+            expire?: number; // Seconds until the message expires (0: never)
+            msgKey?: string; // Ignored in secure mode, where the SDK signs the message itself
+            streamNo?: string; // Set by openStream(); requires setting.stream
+            streamFlag?: StreamFlag;
+        } & RequestOptions = {}
+    ): Promise<SendResult> {
+        if (options.signal?.aborted) {
+            return Promise.reject(createAbortError());
+        }
+        if (!this.outboxOptions && (!this.isConnected || !this.ws || this.ws.readyState !== WS_OPEN)) {
+            return Promise.reject(new Error("Not connected. Call connect() first."));
+        }
+        if (typeof payload !== 'object' || payload === null) {
+             return Promise.reject(new Error("Payload must be a non-null object."));
+        }
+
+        const header = options.header || {};
+        header.redDot = true
+
+
+        let setting = options.setting;
+        if (options.topic) {
+            setting = { ...setting, topic: true }; // The server only reads the topic when setting.topic is set
+        }
+        if (options.receipt) {
+            setting = { ...setting, receipt: true };
+        }
+
+        const clientMsgNo = options.clientMsgNo || this.generateUUID(); // Generate a unique message ID if not provided
+        const params = {
+            clientMsgNo: clientMsgNo,
+            channelId: channelId,
+            channelType: channelType,
+            payload: this._encodePayloadToBase64(payload),
+            header: header,
+            topic: options.topic,
+            setting,
+            expire: options.expire,
+            msgKey: options.msgKey,
+            streamNo: options.streamNo,
+            streamFlag: options.streamFlag,
+        };
+
+        const requestOptions: RequestOptions = { signal: options.signal, timeoutMs: options.timeoutMs };
+        if (this.outboxOptions) {
+            return this.enqueueOutbox(params, requestOptions);
+        }
+        return this.sendMessageRequest(params, requestOptions);
+    }
+
+    /**
+     * Opens a message stream to a channel, e.g. for an AI reply written chunk by chunk.
+     * Every chunk is sent as a message with setting.stream and the stream's streamNo; receivers
+     * get them reassembled through Event.StreamStart / StreamDelta / StreamEnd.
+     * @param channelId Target channel ID
+     * @param channelType Target channel type
+     * @param options Optional: { streamNo (default: a new UUID), header, setting, topic }
+     * @returns A writer; write(chunk) and end(chunk?) resolve with each chunk's server ack
+     */
+    public openStream(
+        channelId: string,
+        channelType: ChannelType | number,
+        options: { streamNo?: string; header?: Header; setting?: MessageSetting; topic?: string } = {}
+    ): StreamWriter {
+        const streamNo = options.streamNo || this.generateUUID();
+        return new MessageStreamWriter(streamNo, (payload, streamFlag) => this.send(channelId, channelType, payload, {
+            header: options.header ? { ...options.header } : undefined,
+            setting: { ...options.setting, stream: true },
+            topic: options.topic,
+            streamNo,
+            streamFlag,
+        }));
+    }
+
+    /**
+     * Subscribes to a channel (e.g. Live or Info channels).
+     * The subscription is remembered and automatically replayed after a reconnect.
+     * @param channelId Channel ID to subscribe to
+     * @param channelType Channel type (e.g., WKIM.ChannelType.Live)
+     * @param options Optional: { param, header, setting, signal, timeoutMs }
+     * @returns Promise resolving with the SubscriptionResult, or rejecting if the server refuses it.
+     */
+    public subscribe(
+        channelId: string,
+        channelType: ChannelType | number,
+        options: SubscribeOptions & RequestOptions = {}
+    ): Promise<SubscriptionResult> {
+        if (!this.isConnected || !this.ws || this.ws.readyState !== WS_OPEN) {
+            return Promise.reject(new Error("Not connected. Call connect() first."));
+        }
+        if (!channelId) {
+            return Promise.reject(new Error("channelId is required."));
+        }
+
+        // Only the subscription itself is remembered for replay, not this call's signal/timeout
+        const { signal, timeoutMs, ...subscribeOptions } = options;
+        return this.sendSubscribeRequest(channelId, channelType, subscribeOptions, { signal, timeoutMs }).then(result => {
+            this.subscriptions.set(this.subscriptionKey(channelId, channelType), { channelId, channelType, options: subscribeOptions });
+            return result;
+        });
+    }
+
+    /**
+     * Unsubscribes from a channel and removes it from the resubscription list.
+     * @param channelId Channel ID to unsubscribe from
+     * @param channelType Channel type
+     * @param options Optional: { header, setting, signal, timeoutMs }
+     * @returns Promise resolving with the SubscriptionResult, or rejecting if the server refuses it.
+     */
+    public unsubscribe(
+        channelId: string,
+        channelType: ChannelType | number,
+        options: Omit<SubscribeOptions, 'param'> & RequestOptions = {}
+    ): Promise<SubscriptionResult> {
+        // Forget the subscription first so it is never replayed, even if the request fails
+        this.subscriptions.delete(this.subscriptionKey(channelId, channelType));
+
+        if (!this.isConnected || !this.ws || this.ws.readyState !== WS_OPEN) {
+            return Promise.reject(new Error("Not connected. Call connect() first."));
+        }
+
+        const params = {
+            subNo: this.generateUUID(),
+            channelId: channelId,
+            channelType: channelType,
+            header: options.header,
+            setting: options.setting,
+        };
+        return this.sendRequest<SubscriptionResult>('unsubscribe', params, { signal: options.signal, timeoutMs: options.timeoutMs })
+            .then(result => this.checkSubscriptionResult('Unsubscribe', channelId, result));
+    }
+
+    /**
+     * Registers an event listener.
+     * @param eventName The event to listen for (e.g., WKIM.Event.Message), or '*' for every event
+     * @param callback The function to call when the event occurs; its payload type follows WKIMEventMap
+     * @returns A function that removes the listener
+     */
+    public on<E extends Event>(eventName: E, callback: EventListener<E>): () => void;
+    public on(eventName: '*', callback: WildcardListener): () => void;
+    public on(eventName: Event | '*', callback: EventHandler): () => void {
+        if (this.eventListeners.has(eventName)) {
+            this.eventListeners.get(eventName)?.push(callback);
+        } else {
+            this.logger.warn(`Attempted to register listener for unknown event: ${eventName}`);
+        }
+        return () => this.off(eventName as Event, callback);
+    }
+
+    /**
+     * Registers a listener that is removed after its first call.
+     * @returns A function that removes the listener before it fires
+     */
+    public once<E extends Event>(eventName: E, callback: EventListener<E>): () => void {
+        const wrapper: EventHandler = (payload: WKIMEventMap[E]) => {
+            this.off(eventName, wrapper);
+            callback(payload);
+        };
+        wrapper.listener = callback;
+        return this.on(eventName, wrapper);
+    }
+
+    /**
+     * Resolves with the payload of the next matching event.
+     * @param eventName The event to wait for
+     * @param predicate Optional filter; only payloads it accepts resolve the promise
+     * @param timeoutMs Optional timeout in ms; the promise rejects when it elapses
+     */
+    public waitFor<E extends Event>(
+        eventName: E,
+        predicate?: (payload: WKIMEventMap[E]) => boolean,
+        timeoutMs?: number
+    ): Promise<WKIMEventMap[E]> {
+        return new Promise((resolve, reject) => {
+            let timer: NodeJS.Timeout | null = null;
+            const finish = () => {
+                unsubscribe();
+                if (timer) {
+                    clearTimeout(timer);
+                }
+            };
+            const unsubscribe = this.on(eventName, (payload: WKIMEventMap[E]) => {
                 try {
-                    callback(...args);
+                    if (predicate && !predicate(payload)) {
+                        return;
+                    }
                 } catch (error) {
-                    console.error(`Error in event listener for ${eventName}:`, error);
+                    finish();
+                    reject(error);
+                    return;
                 }
+                finish();
+                resolve(payload);
             });
+            if (timeoutMs !== undefined && timeoutMs > 0) {
+                timer = setTimeout(() => {
+                    unsubscribe();
+                    reject(new Error(`Timed out after ${timeoutMs}ms waiting for event ${eventName}`));
+                }, timeoutMs);
+            }
+        });
+    }
+
+    /**
+     * Reports messages as read through the receiptReporter. Messages already reported by this
+     * instance are skipped, so it is safe to call on every render.
+     * @param channel Channel the messages belong to
+     * @param messageIds Messages that were read (typically those received with setting.receipt)
+     * @returns Promise resolving once the reporter succeeded
+     */
+    public markAsRead(channel: ChannelRef, messageIds: string[]): Promise<void> {
+        if (!this.receiptReporter) {
+            return Promise.reject(new Error("markAsRead() requires the receiptReporter option."));
+        }
+        const pending = this.receipts.unreported(messageIds);
+        if (pending.length === 0) {
+            return Promise.resolve();
+        }
+        return this.receiptReporter({ channelId: channel.channelId, channelType: channel.channelType }, pending)
+            .then(() => this.receipts.markReported(pending))
+            .catch(error => {
+                this.logger.error(`Failed to report read receipts for channel ${channel.channelId}:`, error);
+                const failure = new Error(`Failed to report read receipts for channel ${channel.channelId}: ${error?.message || error}`);
+                this.emit(Event.Error, failure);
+                throw failure;
+            });
+    }
+
+    /**
+     * Current read status of a message, or null if no read was reported for it.
+     */
+    public getReceipt(messageId: string): ReceiptEvent | null {
+        return this.receipts.get(messageId);
+    }
+
+    /**
+     * Registers a listener for messages on one topic of a channel.
+     * Such messages are still delivered to Event.Message listeners as well.
+     * @param channelId Channel ID the topic belongs to
+     * @param topic Topic name (RecvMessage.topic)
+     * @param handler Called with every matching message
+     * @returns A function that removes the listener
+     */
+    public onTopic(channelId: string, topic: string, handler: EventListener<Event.Message>): () => void {
+        const key = this.topicKey(channelId, topic);
+        const listeners = this.topicListeners.get(key) || [];
+        listeners.push(handler);
+        this.topicListeners.set(key, listeners);
+        return () => {
+            const current = this.topicListeners.get(key);
+            const index = current ? current.indexOf(handler) : -1;
+            if (index > -1) {
+                current!.splice(index, 1);
+                if (current!.length === 0) {
+                    this.topicListeners.delete(key);
+                }
+            }
+        };
+    }
+
+     /**
+     * Removes an event listener.
+     * @param eventName The event to stop listening for, or '*'
+     * @param callback The specific callback function to remove (also matches listeners added with once())
+     */
+    public off<E extends Event>(eventName: E, callback: EventListener<E>): void;
+    public off(eventName: '*', callback: WildcardListener): void;
+    public off(eventName: Event | '*', callback: EventHandler): void {
+         if (this.eventListeners.has(eventName)) {
+            const listeners = this.eventListeners.get(eventName);
+            if (listeners) {
+                 const index = listeners.findIndex(listener => listener === callback || listener.listener === callback);
+                 if (index > -1) {
+                     listeners.splice(index, 1);
+                 }
+            }
         }
     }
 
+    // --- Private Methods ---
+
+    private emit<E extends Event>(eventName: E, payload: WKIMEventMap[E]): void {
+        if (eventName === Event.Error) {
+            this.stats.recordError(payload);
+        }
+        const listeners = this.eventListeners.get(eventName);
+        const wildcards = this.eventListeners.get('*');
+        // Iterate over copies so once() listeners can remove themselves safely
+        listeners?.slice().forEach(callback => {
+            try {
+                callback(payload);
+            } catch (error) {
+                this.logger.error(`Error in event listener for ${eventName}:`, error);
+            }
+        });
+        wildcards?.slice().forEach(callback => {
+            try {
+                callback(eventName, payload);
+            } catch (error) {
+                this.logger.error(`Error in wildcard event listener for ${eventName}:`, error);
+            }
+        });
+    }
+
+    private emitTopic(message: RecvMessage): void {
+        const listeners = this.topicListeners.get(this.topicKey(message.channelId, message.topic!));
+        listeners?.slice().forEach(callback => {
+            try {
+                callback(message);
+            } catch (error) {
+                this.logger.error(`Error in topic listener for ${message.channelId}/${message.topic}:`, error);
+            }
+        });
+    }
+
+    private topicKey(channelId: string, topic: string): string {
+        return JSON.stringify([channelId, topic]);
+    }
+
     private generateUUID(): string {
         return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
             const r = Math.random() * 16 | 0, v = c === 'x' ? r : (r & 0x3 | 0x8);
@@ -979,46 +2096,92 @@ export class WKIM {
     }
 
     private sendConnectRequest(): void {
+        // A fresh key pair per connection; the server derives the shared key from clientKey
+        const session = this.encryption ? new SecureSession(generateKeyPair(this.randomSource)) : null;
+        this.secureSession = session;
         const params = {
             uid: this.auth.uid,
             token: this.auth.token,
             deviceId: this.auth.deviceId,
             deviceFlag: this.auth.deviceFlag ?? DeviceFlag.Web, // Default to WEB
             clientTimestamp: Date.now(),
-            // Add version, clientKey if needed
+            ...(session ? { clientKey: session.clientKey } : {}),
         };
-        this.sendRequest<ConnectResult>('connect', params, 5000) // 5s timeout for connect
+        this.sendRequest<ConnectResult>('connect', params, { timeoutMs: 5000 }) // 5s timeout for connect
             .then(result => {
-                console.log("Authentication successful:", result);
+                if (typeof result.timeDiff === 'number') {
+                    const rtt = Date.now() - params.clientTimestamp;
+                    this.updateClock(() => this.clock.addHandshake(result.timeDiff, rtt));
+                }
+                if (session) {
+                    try {
+                        session.establish(result.serverKey, result.salt);
+                    } catch (error) {
+                        throw new Error(`Secure handshake failed: ${error instanceof Error ? error.message : error}`);
+                    }
+                }
+                this.logger.info("Authentication successful:", result);
                 this.isConnected = true;
+                this.lastGoodEndpoint = this.activeEndpoint;
+                this.stats.recordConnected();
+                this.setState(ConnectionState.Connected, "Authenticated");
 
                 // Reset reconnection state on successful connect
                 this.reconnectAttempts = 0;
+                this.lastReconnectDelay = 0;
                 this.isReconnecting = false;
+                this.reconnectExhausted = false;
                 this.manualDisconnect = false;
+                this.authRetried = false;
 
                 this.startPing();
-                this.emit(Event.Connect, result);
+                this.resubscribeAll();
+                // Backfill once the conversation list is hydrated, so synced messages the server's
+                // unread counts already include are not counted again
+                this.syncConversations().then(() => this.backfillMissed());
+                this.flushOutbox();
+                this.emit(Event.Connect, { ...result, endpoint: this.activeEndpoint ?? undefined });
                  if (this.connectionPromise) {
                     this.connectionPromise.resolve();
                     this.connectionPromise = null;
                 }
             })
             .catch(error => {
-                console.error("Authentication failed:", error);
+                // Retry once with a fresh token when the server rejects the current one
+                if (this.auth.tokenProvider && !this.authRetried && error?.code === ReasonCode.AuthFail) {
+                    this.logger.warn("Authentication failed, refreshing token and retrying once...");
+                    this.authRetried = true;
+                    const pending = this.connectionPromise;
+                    this.connectionPromise = null; // Detach so cleanup does not reject it
+                    this.handleDisconnect(false, "Authentication failed, retrying with refreshed token");
+                    this.connect().then(
+                        () => pending?.resolve(),
+                        retryError => pending?.reject(retryError)
+                    );
+                    return;
+                }
+                this.authRetried = false;
+                this.logger.error("Authentication failed:", error);
                 this.emit(Event.Error, new Error(`Authentication failed: ${error.message || JSON.stringify(error)}`));
                  if (this.connectionPromise) {
                     this.connectionPromise.reject(error);
                     this.connectionPromise = null;
                 }
-                // Don't start reconnection on auth failure, it's a permanent error.
                 this.handleDisconnect(false, "Authentication failed"); // Close connection on auth failure
-                this.cleanupConnection(); // Ensure ws is closed
+                this.cleanupConnection("Authentication failed"); // Ensure ws is closed
+                // A fatal refusal also ends an ongoing reconnection loop; transient ones keep retrying
+                if (typeof error?.code === 'number' && !isRetryableReasonCode(error.code)) {
+                    this.handleFatalReason(error.code, error.message || '');
+                }
             });
     }
 
-    private sendRequest<T>(method: string, params: any, timeoutMs = 15000): Promise<T> {
+    private sendRequest<T>(method: string, params: any, options: RequestOptions = {}): Promise<T> {
+        const { signal, timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS } = options;
         return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                return reject(createAbortError());
+            }
             if (!this.ws || this.ws.readyState !== WS_OPEN) {
                 return reject(new Error("WebSocket is not open."));
             }
@@ -1030,28 +2193,41 @@ export class WKIM {
                 id: requestId
             };
 
-            const timeoutTimer = setTimeout(() => {
+            // Every way of settling detaches the abort listener so the signal does not retain this request
+            const onAbort = () => {
+                clearTimeout(timeoutTimer);
                 this.pendingRequests.delete(requestId);
-                reject(new Error(`Request timeout for method ${method} (id: ${requestId})`));
-            }, timeoutMs);
+                this.logger.debug(`Request aborted (id: ${requestId})`);
+                settle(reject)(createAbortError());
+            };
+            const settle = <A>(fn: (arg: A) => void) => (arg: A) => {
+                signal?.removeEventListener('abort', onAbort);
+                fn(arg);
+            };
 
-            this.pendingRequests.set(requestId, { resolve, reject, timeoutTimer });
+            const timeoutTimer = timeoutMs > 0 ? setTimeout(() => {
+                this.pendingRequests.delete(requestId);
+                settle(reject)(new Error(`Request timeout for method ${method} (id: ${requestId})`));
+            }, timeoutMs) : undefined;
+
+            this.pendingRequests.set(requestId, { resolve: settle(resolve), reject: settle(reject), timeoutTimer });
+            signal?.addEventListener('abort', onAbort);
 
             try {
-                 console.debug(`--> Sending request (id: ${requestId}):`, JSON.stringify(request));
-                this.ws.send(JSON.stringify(request));
+                 this.logger.debug(`--> Sending request (id: ${requestId}):`, request);
+                this.transmit(this.codec.encode(request));
             } catch (error) {
                  clearTimeout(timeoutTimer);
                  this.pendingRequests.delete(requestId);
-                console.error(`Error sending request (id: ${requestId}):`, error);
-                reject(error);
+                this.logger.error(`Error sending request (id: ${requestId}):`, error);
+                settle(reject)(error);
             }
         });
     }
 
      private sendNotification(method: string, params: any): void {
         if (!this.ws || this.ws.readyState !== WS_OPEN) {
-            console.error("Cannot send notification, WebSocket is not open.");
+            this.logger.error("Cannot send notification, WebSocket is not open.");
             return;
         }
 
@@ -1059,81 +2235,256 @@ export class WKIM {
             method: method,
             params: params
         };
-         console.debug(`--> Sending notification:`, JSON.stringify(notification));
+         this.logger.debug(`--> Sending notification:`, notification);
         try {
-            this.ws.send(JSON.stringify(notification));
+            this.transmit(this.codec.encode(notification));
         } catch (error) {
-            console.error(`Error sending notification (${method}):`, error);
+            this.logger.error(`Error sending notification (${method}):`, error);
             this.emit(Event.Error, new Error(`Failed to send notification ${method}: ${error}`));
         }
     }
 
+    private sendNotificationBatch(method: string, paramsList: any[]): void {
+        if (!this.ws || this.ws.readyState !== WS_OPEN) {
+            this.logger.error("Cannot send notifications, WebSocket is not open.");
+            return;
+        }
+
+        const notifications: JsonRpcNotification[] = paramsList.map(params => ({ method, params }));
+         this.logger.debug(`--> Sending ${notifications.length} ${method} notification(s)`);
+        try {
+            this.codec.encodeBatch(notifications).forEach(frame => this.transmit(frame));
+        } catch (error) {
+            this.logger.error(`Error sending notifications (${method}):`, error);
+            this.emit(Event.Error, new Error(`Failed to send notification ${method}: ${error}`));
+        }
+    }
+
+    /**
+     * Writes an encoded frame to the open socket and counts its bytes.
+     */
+    private transmit(frame: string | ArrayBuffer): void {
+        this.ws!.send(frame);
+        this.stats.recordBytesOut(frame);
+    }
+
     private handleMessage(data: any): void {
-         console.debug("<-- Received raw:", data);
-        let message: JsonRpcResponse | JsonRpcNotification;
+        this.stats.recordBytesIn(data);
+        let messages: Array<JsonRpcResponse | JsonRpcNotification>;
         try {
-            message = JSON.parse(data.toString());
+            messages = this.codec.decode(data);
         } catch (error) {
-            console.error("Failed to parse incoming message:", error, data);
+            this.logger.error("Failed to parse incoming message:", error);
             this.emit(Event.Error, new Error(`Failed to parse message: ${error}`));
             return;
         }
 
-        if ('id' in message) { // It's a Response
-            this.handleResponse(message as JsonRpcResponse);
-        } else if ('method' in message) { // It's a Notification
-            this.handleNotification(message as JsonRpcNotification);
+        messages.forEach(message => {
+            if ('id' in message) { // It's a Response
+                this.handleResponse(message as JsonRpcResponse);
+            } else if ('method' in message) { // It's a Notification
+                this.handleNotification(message as JsonRpcNotification);
+            } else {
+                this.logger.warn("Received unknown message format:", message);
+            }
+        });
+    }
+
+    private handleResponse(response: JsonRpcResponse): void {
+         this.logger.debug(`<-- Handling response (id: ${response.id}):`, response);
+        const pending = this.pendingRequests.get(response.id);
+        if (pending) {
+            clearTimeout(pending.timeoutTimer);
+            this.pendingRequests.delete(response.id);
+            if (response.error) {
+                pending.reject(response.error);
+            } else {
+                pending.resolve(response.result);
+            }
         } else {
-            console.warn("Received unknown message format:", message);
+            this.logger.warn(`Received response for unknown request ID: ${response.id}`);
+        }
+    }
+
+    /**
+     * Delivers a received message: dedup, sequence tracking, decryption, expiry, then Event.Message.
+     * @param synced True for messages backfilled by the syncProvider, which are not acknowledged to the server
+     */
+    private handleRecv(messageData: RecvMessage, synced: boolean = false): void {
+        // Messages count as seen for dedup only once acknowledged, so redeliveries of unacked ones get through
+        const acknowledge = () => {
+            this.dedup?.remember(messageData);
+            if (!synced) {
+                this.queueRecvAck(messageData.header, messageData.messageId, messageData.messageSeq);
+            }
+        };
+        if (this.dedup?.has(messageData)) {
+            // Redelivery (e.g. header.dup after a reconnect): acknowledge again, but don't deliver twice
+            this.logger.debug(`Dropping duplicate message ${messageData.messageId}`);
+            acknowledge();
+            return;
+        }
+        // Manual ack mode: the server redelivers messages the app has not acknowledged yet. Deliver them
+        // again so the app gets another chance, but don't store or count them twice.
+        const redelivery = this.unackedMessages.has(messageData.messageId);
+        if (!messageData.header?.noPersist) {
+            const gap = this.sequences.track(messageData, messageData.messageSeq);
+            if (gap && !synced) {
+                this.logger.warn(`Sequence gap in ${messageData.channelId}: missing ${gap.from}-${gap.to}`);
+                this.emit(Event.SequenceGap, { channel: gap.channel, from: gap.from, to: gap.to! });
+            }
+        }
+        if (!synced && this.secureSession && !this.openSecureMessage(messageData)) {
+            // Still acknowledge so the server does not redeliver a message that can never be read
+            acknowledge();
+            return;
+        }
+        if (messageData.expire) {
+            messageData.expiresAt = this.toLocalTime(messageData.timestamp + messageData.expire);
+            if (messageData.expiresAt <= Date.now()) {
+                // Expired while waiting for delivery (e.g. in the offline queue): acknowledge without delivering
+                this.logger.debug(`Dropping expired message ${messageData.messageId}`);
+                acknowledge();
+                return;
+            }
+        }
+        if (typeof messageData.payload === 'string') {
+            try {
+                messageData.payload = JSON.parse(this._decodeBase64ToStr(messageData.payload));
+            } catch (e) {
+                // Keep original string if decode/parse fails
+            }
+        }
+        this.stats.recordReceived(messageData.channelType);
+        if (messageData.setting?.stream && messageData.streamNo) {
+            // Chunks are delivered through the Stream* events and acknowledged right away
+            this.streamAssembler.push(messageData);
+            acknowledge();
+            return;
+        }
+        if (this.ackMode === 'manual') {
+            let acked = false;
+            this.unackedMessages.add(messageData.messageId);
+            messageData.ack = () => {
+                if (!acked) {
+                    acked = true;
+                    this.unackedMessages.delete(messageData.messageId);
+                    this.dedup?.remember(messageData);
+                    if (!synced) {
+                        this.sendRecvAck(messageData.header, messageData.messageId, messageData.messageSeq);
+                    }
+                }
+            };
+        }
+        this.emit(Event.Message, messageData);
+        if (messageData.topic) {
+            this.emitTopic(messageData);
+        }
+        if (redelivery) {
+            return;
+        }
+        if (!messageData.header?.noPersist) {
+            const record: StoredMessage = {
+                messageId: messageData.messageId,
+                messageSeq: messageData.messageSeq,
+                clientMsgNo: messageData.clientMsgNo,
+                channelId: messageData.channelId,
+                channelType: messageData.channelType,
+                fromUid: messageData.fromUid,
+                timestamp: messageData.timestamp,
+                payload: messageData.payload,
+                topic: messageData.topic,
+                expiresAt: messageData.expiresAt,
+            };
+            this.persistMessage(record);
+            // Our own messages synced from another device don't count as unread
+            this.conversationManager.apply(record, !!messageData.header?.redDot && messageData.fromUid !== this.auth.uid);
+        }
+        if (messageData.expiresAt !== undefined) {
+            this.expiryQueue.add(messageData.expiresAt, messageData);
+        }
+        if (this.ackMode !== 'manual') {
+            // Automatically acknowledge receipt
+            acknowledge();
+        }
+    }
+
+    /**
+     * Requests every range that may have been missed from the syncProvider and delivers the results
+     * through handleRecv(). Ranges of one channel are processed one after another so messages stay in order.
+     */
+    private backfillMissed(): void {
+        const provider = this.syncProvider;
+        if (!provider) {
+            return;
         }
+        const byChannel: Map<string, SequenceRange[]> = new Map();
+        this.sequences.syncRanges().forEach(range => {
+            const key = this.subscriptionKey(range.channel.channelId, range.channel.channelType);
+            byChannel.set(key, [...(byChannel.get(key) || []), range]);
+        });
+        byChannel.forEach(ranges => {
+            ranges.reduce((previous, range) => previous
+                .then(() => provider(range))
+                .then(messages => {
+                    messages
+                        .slice()
+                        .sort((a, b) => a.messageSeq - b.messageSeq)
+                        .forEach(message => this.handleRecv(message, true));
+                    this.sequences.resolve(range);
+                })
+                .catch(error => {
+                    this.logger.error(`Message sync failed for channel ${range.channel.channelId}:`, error);
+                    this.emit(Event.Error, new Error(`Message sync failed for channel ${range.channel.channelId}: ${error?.message || error}`));
+                }), Promise.resolve());
+        });
     }
 
-    private handleResponse(response: JsonRpcResponse): void {
-         console.debug(`<-- Handling response (id: ${response.id}):`, response);
-        const pending = this.pendingRequests.get(response.id);
-        if (pending) {
-            clearTimeout(pending.timeoutTimer);
-            this.pendingRequests.delete(response.id);
-            if (response.error) {
-                pending.reject(response.error);
-            } else {
-                pending.resolve(response.result);
-            }
-        } else {
-            console.warn(`Received response for unknown request ID: ${response.id}`);
+    /**
+     * Merges the server's conversation list into the local one. Never rejects; failures are reported as Event.Error.
+     */
+    private syncConversations(): Promise<void> {
+        const provider = this.conversationSync;
+        if (!provider) {
+            return Promise.resolve();
         }
+        return provider()
+            .then(items => this.conversationManager.hydrate(items))
+            .catch(error => {
+                this.logger.error('Conversation sync failed:', error);
+                this.emit(Event.Error, new Error(`Conversation sync failed: ${error?.message || error}`));
+            });
     }
 
     private handleNotification(notification: JsonRpcNotification): void {
-         console.debug(`<-- Handling notification (${notification.method}):`, notification.params);
+         this.logger.debug(`<-- Handling notification (${notification.method}):`, notification.params);
         switch (notification.method) {
             case 'recv':
-                const messageData = notification.params as RecvMessage;
-                if (typeof messageData.payload === 'string') {
-                    try {
-                        messageData.payload = JSON.parse(this._decodeBase64ToStr(messageData.payload));
-                    } catch (e) {
-                        // Keep original string if decode/parse fails
-                    }
-                }
-                this.emit(Event.Message, messageData);
-                // Automatically acknowledge receipt
-                this.sendRecvAck(messageData.header, messageData.messageId, messageData.messageSeq);
+                this.handleRecv(notification.params as RecvMessage);
                 break;
             case 'pong':
                  this.handlePong();
                  break;
-            case 'disconnect':
-                 console.warn('Server initiated disconnect:', notification.params);
+            case 'disconnect': {
+                 this.logger.warn('Server initiated disconnect:', notification.params);
+                 const reasonCode = notification.params?.reasonCode;
+                 const reason = `Server disconnected: ${notification.params?.reason || reasonCode}`;
                  this.emit(Event.Disconnect, notification.params); // Emit server reason
-                 this.handleDisconnect(false, `Server disconnected: ${notification.params?.reason || notification.params?.reasonCode}`); // Close locally
+                 const retryable = isRetryableReasonCode(reasonCode);
+                 this.handleDisconnect(false, reason, retryable ? ConnectionState.Reconnecting : undefined); // Close locally
+                 if (retryable) {
+                     this.tryReconnect(new Error(reason));
+                 } else {
+                     this.handleFatalReason(reasonCode, notification.params?.reason || '');
+                 }
                  break;
+            }
             case 'event':
                  this.handleEventNotification(notification.params);
                  break;
             // Handle other notifications if needed
             default:
-                console.warn(`Received unhandled notification method: ${notification.method}`);
+                this.logger.warn(`Received unhandled notification method: ${notification.method}`);
         }
     }
 
@@ -1197,6 +2548,144 @@ export class WKIM {
         throw new Error('No base64 decoding method available');
     }
 
+    /**
+     * Sends a message request, encrypting the payload and adding msgKey when secure mode is active.
+     * Called at dispatch time (not enqueue time) because the keys change with every connection.
+     */
+    private sendMessageRequest(params: any, requestOptions: RequestOptions = {}): Promise<SendResult> {
+        let request: Promise<SendResult>;
+        const session = this.secureSession;
+        const startedAt = Date.now();
+        this.stats.recordSent(params.channelType);
+        if (!session) {
+            request = this.sendRequest<SendResult>('send', params, requestOptions);
+        } else {
+            const clientSeq = ++this.clientSeq;
+            const encrypted = session.encrypt(base64ToBytes(params.payload));
+            const signString = `${clientSeq}${params.clientMsgNo}${params.channelId}${params.channelType}${encrypted}`;
+            request = this.sendRequest<SendResult>('send', {
+                ...params,
+                clientSeq,
+                msgKey: session.msgKey(signString),
+                payload: bytesToBase64(new TextEncoder().encode(encrypted)),
+            }, requestOptions);
+        }
+        return request.then(result => {
+            this.stats.recordAcked(params.channelType, Date.now() - startedAt);
+            this.emit(Event.SendAck, {
+                ...result,
+                clientMsgNo: params.clientMsgNo,
+                channelId: params.channelId,
+                channelType: params.channelType,
+            });
+            if (result.reasonCode === ReasonCode.Success && !params.setting?.stream && !params.header?.noPersist) {
+                this.recordSent(params, result);
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Adds a message the server accepted to the store and the conversation list, as the receiving side would see it.
+     */
+    private recordSent(params: any, result: SendResult): void {
+        let payload: any = params.payload;
+        try {
+            payload = JSON.parse(this._decodeBase64ToStr(params.payload));
+        } catch (e) {
+            // Keep the base64 string if decode/parse fails
+        }
+        const timestamp = Math.floor(this.serverNow() / 1000);
+        const record: StoredMessage = {
+            messageId: result.messageId,
+            messageSeq: result.messageSeq,
+            clientMsgNo: params.clientMsgNo,
+            channelId: params.channelId,
+            channelType: params.channelType,
+            fromUid: this.auth.uid,
+            timestamp,
+            payload,
+            topic: params.topic,
+            // Same as received messages: expire counts from the server timestamp
+            expiresAt: params.expire ? this.toLocalTime(timestamp + params.expire) : undefined,
+            outgoing: true,
+        };
+        this.persistMessage(record);
+        this.conversationManager.apply(record, false);
+        if (record.expiresAt !== undefined) {
+            this.expiryQueue.add(record.expiresAt, {
+                header: params.header || {},
+                setting: params.setting,
+                messageId: record.messageId,
+                messageSeq: record.messageSeq,
+                clientMsgNo: record.clientMsgNo,
+                timestamp,
+                channelId: record.channelId,
+                channelType: record.channelType,
+                fromUid: record.fromUid,
+                payload,
+                topic: record.topic,
+                expire: params.expire,
+                expiresAt: record.expiresAt,
+            });
+        }
+    }
+
+    /**
+     * Writes a message to the messageStore in the background; failures are reported as Event.Error.
+     */
+    private persistMessage(message: StoredMessage): void {
+        if (!this.store) {
+            return;
+        }
+        this.store.put(message).catch(error => {
+            this.logger.error(`Failed to store message ${message.messageId}:`, error);
+            this.emit(Event.Error, new Error(`Failed to store message ${message.messageId}: ${error?.message || error}`));
+        });
+    }
+
+    private unpersistMessage(messageId: string): void {
+        if (!this.store) {
+            return;
+        }
+        this.store.delete(messageId).catch(error => {
+            this.logger.error(`Failed to delete message ${messageId} from the store:`, error);
+            this.emit(Event.Error, new Error(`Failed to delete message ${messageId} from the store: ${error?.message || error}`));
+        });
+    }
+
+    /**
+     * Verifies msgKey and decrypts the payload of a received message in place.
+     * Emits Event.Error with ReasonCode.MsgKeyError / PayloadDecodeError and returns false on failure.
+     */
+    private openSecureMessage(message: RecvMessage): boolean {
+        const session = this.secureSession!;
+        const encrypted = typeof message.payload === 'string'
+            ? new TextDecoder().decode(base64ToBytes(message.payload))
+            : '';
+        const signString = `${message.messageId}${message.messageSeq}${message.clientMsgNo ?? ''}${message.timestamp}`
+            + `${message.fromUid}${message.channelId}${message.channelType}${encrypted}`;
+        if (!message.msgKey || session.msgKey(signString) !== message.msgKey) {
+            this.logger.error(`msgKey verification failed for message ${message.messageId}, dropping it.`);
+            this.emit(Event.Error, Object.assign(
+                new Error(`Message ${message.messageId} failed msgKey verification`),
+                { code: ReasonCode.MsgKeyError, messageId: message.messageId }
+            ));
+            return false;
+        }
+        try {
+            message.payload = bytesToBase64(session.decrypt(encrypted));
+        } catch (error) {
+            this.logger.error(`Failed to decrypt message ${message.messageId}:`, error);
+            this.emit(Event.Error, Object.assign(
+                new Error(`Failed to decrypt message ${message.messageId}: ${error}`),
+                { code: ReasonCode.PayloadDecodeError, messageId: message.messageId }
+            ));
+            return false;
+        }
+        return true;
+    }
+
     private sendRecvAck(header: Header, messageId: string, messageSeq: number): void {
         // Per protocol, recvack is a request, but usually doesn't need a response processed
         // Sending as a notification might be simpler if the server allows it,
@@ -1208,6 +2697,47 @@ export class WKIM {
         // this.sendNotification('recvack', params);
     }
 
+    /**
+     * Acknowledges a message immediately, or queues it for the next flush in 'batched' mode.
+     */
+    private queueRecvAck(header: Header, messageId: string, messageSeq: number): void {
+        if (this.ackMode !== 'batched') {
+            this.sendRecvAck(header, messageId, messageSeq);
+            return;
+        }
+        // Keyed by messageId, so a redelivery inside the window is acknowledged once
+        this.pendingAcks.set(messageId, { header, messageId, messageSeq });
+        if (this.pendingAcks.size >= this.ACK_BATCH_MAX_SIZE) {
+            this.flushRecvAcks();
+        } else if (!this.ackTimer) {
+            this.ackTimer = setTimeout(() => this.flushRecvAcks(), this.ackBatchWindow);
+        }
+    }
+
+    private flushRecvAcks(): void {
+        if (this.ackTimer) {
+            clearTimeout(this.ackTimer);
+            this.ackTimer = null;
+        }
+        if (this.pendingAcks.size === 0) {
+            return;
+        }
+        const acks = Array.from(this.pendingAcks.values());
+        this.pendingAcks.clear();
+        this.sendNotificationBatch('recvack', acks);
+    }
+
+    /**
+     * Drops acks that were not flushed; the server redelivers those messages after a reconnect.
+     */
+    private clearRecvAcks(): void {
+        if (this.ackTimer) {
+            clearTimeout(this.ackTimer);
+            this.ackTimer = null;
+        }
+        this.pendingAcks.clear();
+    }
+
     /**
      * Handles incoming event notifications from the server
      * @param params Event notification parameters
@@ -1224,7 +2754,7 @@ export class WKIM {
 
             // Validate required fields
             if (!eventData.id || !eventData.type) {
-                console.error('Invalid event notification: missing required fields', params);
+                this.logger.error('Invalid event notification: missing required fields', params);
                 this.emit(Event.Error, new Error('Invalid event notification: missing required fields'));
                 return;
             }
@@ -1235,47 +2765,54 @@ export class WKIM {
                     eventData.data = JSON.parse(eventData.data);
                 } catch (e) {
                     // Keep as string if not valid JSON
-                    console.debug('Event data is not JSON, keeping as string');
+                    this.logger.debug('Event data is not JSON, keeping as string');
                 }
             }
 
-            console.log(`Event notification received: type=${eventData.type}, id=${eventData.id}`);
+            this.logger.debug(`Event notification received: type=${eventData.type}, id=${eventData.id}`);
 
             // Emit the custom event to registered listeners
             this.emit(Event.CustomEvent, eventData);
+            if (eventData.type === RECEIPT_EVENT_TYPE) {
+                this.handleReceiptReport(eventData.data);
+            }
         } catch (error) {
-            console.error('Error handling event notification:', error);
+            this.logger.error('Error handling event notification:', error);
             this.emit(Event.Error, new Error(`Failed to handle event notification: ${error}`));
         }
     }
 
+    /**
+     * Aggregates a read report and emits Event.Receipt for every message whose read status changed.
+     */
+    private handleReceiptReport(report: ReceiptReport): void {
+        if (!report || !report.channelId || !Array.isArray(report.messageIds)) {
+            this.logger.warn('Ignoring malformed read receipt:', report);
+            return;
+        }
+        this.receipts.apply(report, this.auth.uid).forEach(receipt => this.emit(Event.Receipt, receipt));
+    }
+
      private startPing(): void {
         this.stopPing(); // Clear existing timers
         this.pingInterval = setInterval(() => {
             if (this.ws && this.ws.readyState === WS_OPEN) {
-                this.sendRequest('ping', {}, this.PONG_TIMEOUT_MS)
-                    .then(this.handlePong.bind(this)) // Technically pong is a notification, but use req/res for timeout
-                    .catch(err => {
-                        console.error("Ping failed or timed out:", err);
-                        this.emit(Event.Error, new Error(`Ping timeout: ${err?.message || err}`));
-                        // Treat ping timeout as an unhealthy connection: close and reconnect
-                        if (!this.manualDisconnect) {
-                            this.handleDisconnect(false, "Ping timeout");
-                            this.tryReconnect();
-                        }
-                    });
+                const sentAt = Date.now();
+                this.sendRequest<any>('ping', {}, { timeoutMs: this.PONG_TIMEOUT_MS })
+                    .then(() => this.handlePong(sentAt)) // Technically pong is a notification, but use req/res for timeout
+                    .catch(err => this.handlePingFailure(err));
             } else {
                  this.stopPing(); // Stop if WS is not open
             }
         }, this.PING_INTERVAL_MS);
-         console.log(`Ping interval started (${this.PING_INTERVAL_MS}ms).`);
+         this.logger.debug(`Ping interval started (${this.PING_INTERVAL_MS}ms).`);
     }
 
      private stopPing(): void {
         if (this.pingInterval) {
             clearInterval(this.pingInterval);
             this.pingInterval = null;
-             console.log("Ping interval stopped.");
+             this.logger.debug("Ping interval stopped.");
         }
          if (this.pingTimeout) {
              clearTimeout(this.pingTimeout);
@@ -1283,16 +2820,79 @@ export class WKIM {
          }
     }
 
-     private handlePong(): void {
-         // console.debug("Pong received.");
+    private startStatsTimer(): void {
+        if (this.statsInterval <= 0 || this.statsTimer) {
+            return;
+        }
+        this.statsTimer = setInterval(() => this.emit(Event.Stats, this.getStats()), this.statsInterval);
+    }
+
+    private stopStatsTimer(): void {
+        if (this.statsTimer) {
+            clearInterval(this.statsTimer);
+            this.statsTimer = null;
+        }
+    }
+
+    private handlePingFailure(err: any): void {
+        this.logger.error("Ping failed or timed out:", err);
+        this.emit(Event.Error, new Error(`Ping timeout: ${err?.message || err}`));
+        // Treat ping timeout as an unhealthy connection: close and reconnect
+        if (!this.manualDisconnect) {
+            this.handleDisconnect(false, "Ping timeout", ConnectionState.Reconnecting);
+            this.tryReconnect(err instanceof Error ? err : new Error(String(err)));
+        }
+    }
+
+    /**
+     * Stops reconnection after a fatal reason code and notifies the app via Event.AuthExpired or Event.Kicked.
+     * Reconnection resumes only when the app calls connect() again.
+     */
+    private handleFatalReason(reasonCode: ReasonCode, reason: string): void {
+        this.logger.warn(`Fatal disconnect reason ${reasonCode} (${reason}); not reconnecting.`);
+        this.manualDisconnect = true; // Blocks automatic and lifecycle-driven reconnects until connect()
+        this.isReconnecting = false;
+        this.clearReconnectTimer();
+        this.setState(ConnectionState.Disconnected, reason || `Reason code ${reasonCode}`);
+        const event: KickedEvent = { reasonCode, reason };
+        this.emit(reasonCode === ReasonCode.AuthFail ? Event.AuthExpired : Event.Kicked, event);
+    }
+
+     private handlePong(sentAt?: number): void {
+         // this.logger.debug("Pong received.");
          // Reset pong timeout if using one (mainly handled by sendRequest timeout now)
+         if (sentAt !== undefined) {
+             this.stats.recordPing(Date.now() - sentAt);
+         }
      }
 
-     private handleDisconnect(graceful: boolean, reason: string): void {
-         console.log(`Handling disconnect. Graceful: ${graceful}, Reason: ${reason}`);
+    /**
+     * Applies a clock sample and emits Event.ClockSkew when the offset moved by at least clockSkewThreshold
+     * since the last report.
+     */
+    private updateClock(addSample: () => void): void {
+        addSample();
+        const offset = this.clock.offset;
+        const previousOffset = this.reportedClockOffset;
+        if (Math.abs(offset - previousOffset) < this.clockSkewThreshold) {
+            return;
+        }
+        this.reportedClockOffset = offset;
+        this.logger.info(`Server clock offset changed: ${previousOffset}ms -> ${offset}ms`);
+        const event: ClockSkewEvent = { offset, previousOffset, rtt: this.clock.rtt };
+        this.emit(Event.ClockSkew, event);
+    }
+
+    /**
+     * Closes the socket and cleans up. `next` is the state to report, when the caller already knows
+     * it will reconnect (default: Reconnecting during a reconnection loop, otherwise Disconnected).
+     */
+     private handleDisconnect(graceful: boolean, reason: string, next?: ConnectionState): void {
+         this.logger.debug(`Handling disconnect. Graceful: ${graceful}, Reason: ${reason}`);
         if (this.ws) {
             this.stopPing();
             if (graceful && this.ws.readyState === WS_OPEN) {
+                this.flushRecvAcks(); // Don't leave batched acks behind on a clean shutdown
                 // Use standard close codes: 1000 (normal), 3000-4999 (custom)
                 this.ws.close(1000, "Client disconnected"); // Normal closure
             } else if (this.ws.readyState === WS_CONNECTING || this.ws.readyState === WS_OPEN) {
@@ -1300,13 +2900,15 @@ export class WKIM {
                 this.ws.close(3001, reason.substring(0, 123)); // Custom code, limit reason length
             }
         }
-        this.cleanupConnection(); // Clean up state regardless of how close happened
+        this.cleanupConnection(reason, next); // Clean up state regardless of how close happened
     }
 
-    private cleanupConnection(): void {
-        console.log("Cleaning up connection resources.");
+    private cleanupConnection(cause: string = "Connection closed", next?: ConnectionState): void {
+        this.logger.debug("Cleaning up connection resources.");
         this.isConnected = false;
+        this.secureSession = null;
         this.stopPing();
+        this.clearRecvAcks();
 
         // Reject any pending requests
         this.pendingRequests.forEach((pending) => {
@@ -1334,6 +2936,194 @@ export class WKIM {
              // Consider setting this.ws = null here or after a short delay if needed
         }
         // Do NOT clear eventListeners here, user might want to reconnect.
+        this.setState(next ?? (this.isReconnecting ? ConnectionState.Reconnecting : ConnectionState.Disconnected), cause);
+    }
+
+    /**
+     * Transitions to a new connection state and emits Event.StateChange.
+     * Destroyed is terminal; no further transitions are reported.
+     */
+    private setState(next: ConnectionState, cause: string): void {
+        const previous = this._state;
+        if (previous === next || previous === ConnectionState.Destroyed) {
+            return;
+        }
+        this._state = next;
+        this.emit(Event.StateChange, { previous, next, cause } as StateChangeEvent);
+    }
+
+    // --- Subscription Methods ---
+
+    private subscriptionKey(channelId: string, channelType: number): string {
+        return `${channelType}:${channelId}`;
+    }
+
+    private sendSubscribeRequest(
+        channelId: string,
+        channelType: number,
+        options: SubscribeOptions,
+        requestOptions: RequestOptions = {}
+    ): Promise<SubscriptionResult> {
+        const params = {
+            subNo: this.generateUUID(),
+            channelId: channelId,
+            channelType: channelType,
+            param: options.param,
+            header: options.header,
+            setting: options.setting,
+        };
+        return this.sendRequest<SubscriptionResult>('subscribe', params, requestOptions)
+            .then(result => this.checkSubscriptionResult('Subscribe', channelId, result));
+    }
+
+    private checkSubscriptionResult(action: string, channelId: string, result: SubscriptionResult): SubscriptionResult {
+        if (result && result.reasonCode !== undefined && result.reasonCode !== ReasonCode.Success) {
+            const reason = ReasonCode[result.reasonCode] || result.reasonCode;
+            throw new Error(`${action} failed for channel ${channelId}: ${reason} (reasonCode: ${result.reasonCode})`);
+        }
+        return result;
+    }
+
+    /**
+     * Replays all registered subscriptions after a successful (re)connect.
+     * Failures are reported via Event.Error; the subscription is kept for the next reconnect.
+     */
+    private resubscribeAll(): void {
+        this.subscriptions.forEach(({ channelId, channelType, options }) => {
+            this.sendSubscribeRequest(channelId, channelType, options).catch(error => {
+                this.logger.error(`Resubscribe failed for channel ${channelId}:`, error);
+                this.emit(Event.Error, new Error(`Resubscribe failed for channel ${channelId}: ${error?.message || error}`));
+            });
+        });
+    }
+
+    // --- Outbox Methods ---
+
+    private enqueueOutbox(params: any, requestOptions: RequestOptions = {}): Promise<SendResult> {
+        return new Promise((resolve, reject) => {
+            const signal = requestOptions.signal;
+            // Aborting drops a queued entry; an in-flight one is rejected by sendRequest's own listener
+            const onAbort = () => {
+                this.removeFromOutbox(entry);
+                entry.reject(createAbortError());
+            };
+            const entry: OutboxEntry = {
+                seq: ++this.outboxSeq,
+                params,
+                requestOptions,
+                enqueuedAt: Date.now(),
+                attempts: 0,
+                resolve: result => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(result);
+                },
+                reject: reason => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(reason);
+                },
+                expireTimer: null,
+            };
+            signal?.addEventListener('abort', onAbort);
+            if (this.isConnected && this.ws?.readyState === WS_OPEN) {
+                this.dispatchOutboxEntry(entry);
+            } else {
+                this.addToOutbox(entry);
+            }
+        });
+    }
+
+    /**
+     * Inserts an entry into the outbox, keeping original send order, and applies the size and age limits.
+     */
+    private addToOutbox(entry: OutboxEntry): void {
+        const options = this.outboxOptions;
+        if (!options) {
+            entry.reject(new Error("Not connected. Call connect() first."));
+            return;
+        }
+
+        const remaining = options.maxAge - (Date.now() - entry.enqueuedAt);
+        if (remaining <= 0) {
+            entry.reject(this.outboxExpiredError(entry));
+            return;
+        }
+
+        let index = this.outbox.findIndex(queued => queued.seq > entry.seq);
+        if (index === -1) {
+            index = this.outbox.length;
+        }
+        this.outbox.splice(index, 0, entry);
+
+        entry.expireTimer = setTimeout(() => {
+            this.removeFromOutbox(entry);
+            entry.reject(this.outboxExpiredError(entry));
+        }, remaining);
+
+        while (this.outbox.length > options.maxSize) {
+            const victim = options.dropPolicy === 'drop-oldest' ? this.outbox[0] : entry;
+            this.removeFromOutbox(victim);
+            victim.reject(new Error(`Outbox is full (maxSize: ${options.maxSize}); message ${victim.params.clientMsgNo} dropped`));
+        }
+    }
+
+    private removeFromOutbox(entry: OutboxEntry): void {
+        if (entry.expireTimer) {
+            clearTimeout(entry.expireTimer);
+            entry.expireTimer = null;
+        }
+        const index = this.outbox.indexOf(entry);
+        if (index > -1) {
+            this.outbox.splice(index, 1);
+        }
+    }
+
+    private outboxExpiredError(entry: OutboxEntry): Error {
+        return new Error(`Message ${entry.params.clientMsgNo} expired in outbox after ${this.outboxOptions?.maxAge}ms without a connection`);
+    }
+
+    /**
+     * Sends an outbox entry. If the connection drops before the ack arrives,
+     * the entry is re-queued and retransmitted with header.dup on the next flush.
+     */
+    private dispatchOutboxEntry(entry: OutboxEntry): void {
+        entry.attempts++;
+        if (entry.attempts > 1) {
+            entry.params.header = { ...entry.params.header, dup: true };
+        }
+        this.sendMessageRequest(entry.params, entry.requestOptions)
+            .then(entry.resolve)
+            .catch(error => {
+                if (!this.isConnected && this.outboxOptions && !entry.requestOptions.signal?.aborted) {
+                    this.addToOutbox(entry);
+                } else {
+                    entry.reject(error);
+                }
+            });
+    }
+
+    private flushOutbox(): void {
+        if (this.outbox.length === 0) {
+            return;
+        }
+        this.logger.info(`Flushing ${this.outbox.length} queued message(s) from outbox.`);
+        const entries = this.outbox.splice(0);
+        entries.forEach(entry => {
+            if (entry.expireTimer) {
+                clearTimeout(entry.expireTimer);
+                entry.expireTimer = null;
+            }
+            this.dispatchOutboxEntry(entry);
+        });
+    }
+
+    private rejectOutbox(error: Error): void {
+        const entries = this.outbox.splice(0);
+        entries.forEach(entry => {
+            if (entry.expireTimer) {
+                clearTimeout(entry.expireTimer);
+            }
+            entry.reject(error);
+        });
     }
 
     // --- Reconnection Methods ---
@@ -1342,7 +3132,7 @@ export class WKIM {
         // Only setup in browser environment
         if (typeof window !== 'undefined') {
             this.beforeUnloadHandler = () => {
-                console.log('Page unloading, closing WebSocket connection...');
+                this.logger.info('Page unloading, closing WebSocket connection...');
                 this.manualDisconnect = true;
                 this.isReconnecting = false;
                 if (this.ws && this.ws.readyState === WS_OPEN) {
@@ -1362,47 +3152,237 @@ export class WKIM {
         }
     }
 
-    private tryReconnect(): void {
+    // --- Network / App Lifecycle Methods ---
+
+    private setupLifecycleHandlers(): void {
+        const onOnline = () => this.handleNetworkChange(true);
+        const onOffline = () => this.handleNetworkChange(false);
+
+        // Browser: online/offline and page visibility
+        if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+            if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+                this.networkOffline = true;
+            }
+            window.addEventListener('online', onOnline);
+            window.addEventListener('offline', onOffline);
+            this.lifecycleCleanups.push(() => {
+                window.removeEventListener('online', onOnline);
+                window.removeEventListener('offline', onOffline);
+            });
+
+            if (typeof document !== 'undefined' && typeof document.addEventListener === 'function') {
+                // Hidden tabs keep their connection; only coming back to the foreground triggers a check
+                const onVisibilityChange = () => {
+                    if (document.visibilityState === 'visible') {
+                        this.resumeConnection("Page became visible");
+                    }
+                };
+                document.addEventListener('visibilitychange', onVisibilityChange);
+                this.lifecycleCleanups.push(() => document.removeEventListener('visibilitychange', onVisibilityChange));
+            }
+            return;
+        }
+
+        // Mini programs: network status plus app show/hide (sockets are suspended in the background)
+        const api = this.getMiniProgramApi();
+        if (!api) {
+            return;
+        }
+        if (typeof api.onNetworkStatusChange === 'function') {
+            const onNetworkStatus = (res: { isConnected: boolean }) => this.handleNetworkChange(!!res.isConnected);
+            api.onNetworkStatusChange(onNetworkStatus);
+            this.lifecycleCleanups.push(() => api.offNetworkStatusChange?.(onNetworkStatus));
+        }
+        if (typeof api.onAppShow === 'function') {
+            const onAppShow = () => {
+                this.appHidden = false;
+                this.resumeConnection("App returned to foreground");
+            };
+            api.onAppShow(onAppShow);
+            this.lifecycleCleanups.push(() => api.offAppShow?.(onAppShow));
+        }
+        if (typeof api.onAppHide === 'function') {
+            const onAppHide = () => {
+                this.appHidden = true;
+                this.pauseReconnect("App moved to background");
+            };
+            api.onAppHide(onAppHide);
+            this.lifecycleCleanups.push(() => api.offAppHide?.(onAppHide));
+        }
+    }
+
+    private cleanupLifecycleHandlers(): void {
+        this.lifecycleCleanups.forEach(cleanup => {
+            try {
+                cleanup();
+            } catch (error) {
+                this.logger.error("Error removing lifecycle handler:", error);
+            }
+        });
+        this.lifecycleCleanups = [];
+    }
+
+    private getMiniProgramApi(): MiniProgramLifecycleApi | null {
+        switch (getPlatform()) {
+            case PlatformType.UniApp:
+                return typeof uni !== 'undefined' ? uni : null;
+            case PlatformType.WeChat:
+                return typeof wx !== 'undefined' ? wx : null;
+            case PlatformType.Alipay:
+                return typeof my !== 'undefined' ? my : null;
+            default:
+                return null;
+        }
+    }
+
+    private handleNetworkChange(online: boolean): void {
+        if (!online) {
+            if (!this.networkOffline) {
+                this.networkOffline = true;
+                this.pauseReconnect("Network offline");
+            }
+            return;
+        }
+        this.networkOffline = false;
+        this.resumeConnection("Network back online");
+    }
+
+    private isReconnectPaused(): boolean {
+        return this.networkOffline || this.appHidden;
+    }
+
+    /**
+     * Stops a pending backoff timer without consuming reconnect attempts.
+     */
+    private pauseReconnect(cause: string): void {
+        if (this.reconnectTimer) {
+            this.logger.info(`${cause}, pausing reconnection.`);
+            this.clearReconnectTimer();
+            this.setState(ConnectionState.Reconnecting, cause);
+        }
+    }
+
+    /**
+     * Called when the network or app becomes available again.
+     * Verifies a live connection with a ping, or reconnects immediately if one was lost.
+     */
+    private resumeConnection(cause: string): void {
+        if (this.manualDisconnect || this._state === ConnectionState.Destroyed || this.isReconnectPaused()) {
+            return;
+        }
+        if (this.isConnected) {
+            this.checkConnectionHealth();
+            return;
+        }
+        if (this.isReconnecting || this.reconnectExhausted) {
+            this.logger.info(`${cause}, reconnecting now.`);
+            this.reconnectNow().catch(() => {
+                // Failures are handled by the reconnection policy
+            });
+        }
+    }
+
+    private checkConnectionHealth(): void {
+        if (!this.ws || this.ws.readyState !== WS_OPEN) {
+            return;
+        }
+        const sentAt = Date.now();
+        this.sendRequest<any>('ping', {}, { timeoutMs: this.HEALTH_CHECK_TIMEOUT_MS })
+            .then(() => this.handlePong(sentAt))
+            .catch(err => this.handlePingFailure(err));
+    }
+
+    private tryReconnect(lastError: Error | null = null): void {
         if (this.isReconnecting || this.manualDisconnect) {
             return;
         }
 
         // The onclose event handler should have already called cleanupConnection.
         this.isReconnecting = true;
-        this.scheduleReconnect();
+        this.stats.outageStarted();
+        this.scheduleReconnect(lastError);
     }
 
-    private scheduleReconnect(): void {
-        if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-            console.error("Max reconnect attempts reached. Giving up.");
+    /**
+     * Computes the delay before the given (1-based) attempt, or false to give up.
+     */
+    private computeReconnectDelay(attempt: number, lastError: Error | null): number | false {
+        const { strategy, maxAttempts, initialDelay, maxDelay, factor, jitter } = this.reconnectOptions;
+        if (strategy) {
+            return strategy(attempt, lastError);
+        }
+        if (attempt > maxAttempts) {
+            return false;
+        }
+
+        const exponential = Math.min(maxDelay, initialDelay * Math.pow(factor, attempt - 1));
+        switch (jitter) {
+            case 'full':
+                return Math.floor(Math.random() * exponential);
+            case 'decorrelated': {
+                const upper = Math.max(initialDelay, (this.lastReconnectDelay || initialDelay) * 3);
+                return Math.min(maxDelay, Math.floor(initialDelay + Math.random() * (upper - initialDelay)));
+            }
+            default:
+                return exponential;
+        }
+    }
+
+    private scheduleReconnect(lastError: Error | null = null): void {
+        if (this.isReconnectPaused()) {
+            // Resumed by resumeConnection() once the network/app is available again
+            this.logger.info("Network unavailable or app in background; waiting before reconnecting.");
+            this.clearReconnectTimer();
+            this.setState(ConnectionState.Reconnecting, this.networkOffline ? "Network offline" : "App in background");
+            return;
+        }
+
+        const delay = this.computeReconnectDelay(this.reconnectAttempts + 1, lastError);
+        if (delay === false) {
+            this.logger.error("Max reconnect attempts reached. Giving up.");
             this.isReconnecting = false;
+            this.reconnectExhausted = true;
+            this.stats.abandonOutage();
+            this.setState(ConnectionState.Disconnected, "Max reconnect attempts reached");
             this.reconnectAttempts = 0;
+            this.lastReconnectDelay = 0;
             this.emit(Event.Error, new Error("Reconnection failed."));
             return;
         }
 
-        const delay = this.initialReconnectDelay * Math.pow(2, this.reconnectAttempts);
         this.reconnectAttempts++;
+        this.stats.recordReconnectAttempt();
+        this.lastReconnectDelay = delay;
+        this.setState(ConnectionState.Reconnecting, lastError?.message || "Reconnecting");
 
-        console.log(`Will attempt to reconnect in ${delay / 1000}s (Attempt ${this.reconnectAttempts}).`);
+        this.logger.info(`Will attempt to reconnect in ${delay / 1000}s (Attempt ${this.reconnectAttempts}).`);
         this.emit(Event.Reconnecting, { attempt: this.reconnectAttempts, delay });
 
-        setTimeout(() => {
+        this.clearReconnectTimer();
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
             // Check if a manual disconnect happened while waiting
             if (!this.isReconnecting) {
-                console.log("Reconnection aborted.");
+                this.logger.info("Reconnection aborted.");
                 return;
             }
-            this.connect().catch(() => {
+            this.connect().catch((error) => {
                 // connect() rejects if it fails. Schedule the next attempt.
                 if(this.isReconnecting) {
-                    this.scheduleReconnect();
+                    this.scheduleReconnect(error instanceof Error ? error : new Error(error?.message || String(error)));
                 }
             });
         }, delay);
     }
 
+    private clearReconnectTimer(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+    }
+
 }
 
 // Export ChannelType and Event enums alongside the class for easier use
-export { ChannelType as WKIMChannelType, Event as WKIMEvent, DeviceFlag as WKIMDeviceFlag };
\ No newline at end of file
+export { ChannelType as WKIMChannelType, Event as WKIMEvent, DeviceFlag as WKIMDeviceFlag };
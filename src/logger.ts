@@ -0,0 +1,97 @@
+// --- Logging ---
+//
+// The SDK never writes to the console directly: every message goes through a Logger that drops
+// entries below the configured LogLevel and masks credentials and message payloads in the
+// arguments before they reach the sink, so debug output is safe to ship to log collectors.
+
+export interface Logger {
+    debug(message?: any, ...args: any[]): void;
+    info(message?: any, ...args: any[]): void;
+    warn(message?: any, ...args: any[]): void;
+    error(message?: any, ...args: any[]): void;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+    debug: 0,
+    info: 1,
+    warn: 2,
+    error: 3,
+    silent: 4,
+};
+
+/** Replacement for masked values */
+export const REDACTED = '[redacted]';
+
+// Fields that carry credentials, key material or message contents
+const REDACTED_KEYS = new Set(['token', 'payload', 'serverKey', 'clientKey', 'salt', 'msgKey']);
+
+const MAX_REDACT_DEPTH = 6;
+
+const noop = () => {};
+
+/** A Logger that discards everything */
+export const silentLogger: Logger = { debug: noop, info: noop, warn: noop, error: noop };
+
+/**
+ * Returns a copy of a log argument with sensitive fields masked. Binary data is summarized by
+ * its size; Error instances are kept as-is so stack traces survive.
+ */
+export function redact(value: any, depth: number = 0): any {
+    if (value === null || typeof value !== 'object' || value instanceof Error) {
+        return value;
+    }
+    if (value instanceof ArrayBuffer) {
+        return `[${value.byteLength} bytes]`;
+    }
+    if (ArrayBuffer.isView(value)) {
+        return `[${value.byteLength} bytes]`;
+    }
+    if (depth >= MAX_REDACT_DEPTH) {
+        return '[...]';
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redact(item, depth + 1));
+    }
+    const copy: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+        copy[key] = REDACTED_KEYS.has(key) && value[key] !== undefined && value[key] !== ''
+            ? REDACTED
+            : redact(value[key], depth + 1);
+    }
+    return copy;
+}
+
+/**
+ * Wraps a sink so entries below `level` are dropped and every argument is redacted.
+ * A sink that throws never breaks the SDK.
+ */
+export function createLogger(sink: Logger, level: LogLevel): Logger {
+    const threshold = LOG_LEVEL_ORDER[level] ?? LOG_LEVEL_ORDER.warn;
+    const forward = (method: Exclude<LogLevel, 'silent'>) => {
+        if (LOG_LEVEL_ORDER[method] < threshold) {
+            return noop;
+        }
+        return (...args: any[]) => {
+            try {
+                sink[method](...args.map(arg => redact(arg)));
+            } catch (error) {
+                // Ignore failures of the sink itself
+            }
+        };
+    };
+    return {
+        debug: forward('debug'),
+        info: forward('info'),
+        warn: forward('warn'),
+        error: forward('error'),
+    };
+}
+
+/**
+ * The default sink: the global console when there is one (browsers, Node.js, mini programs).
+ */
+export function defaultLogSink(): Logger {
+    return typeof console !== 'undefined' ? console : silentLogger;
+}
@@ -0,0 +1,108 @@
+// --- Read Receipts ---
+//
+// Aggregates read reports for messages sent with setting.receipt. Each report names the reader (or
+// carries a server-side count); per message we keep who has read it, so group UIs can show "read by 3".
+// The number of tracked messages is bounded, oldest first.
+
+import type { ChannelRef } from './sequence';
+
+export interface ReceiptEvent {
+    messageId: string;
+    channelId: string;
+    channelType: number;
+    /** Uids known to have read the message, in report order */
+    readBy: string[];
+    /** Number of readers; may exceed readBy.length when the server only reports a count */
+    readCount: number;
+}
+
+/** A read report, e.g. the data of a 'message.read' event notification */
+export interface ReceiptReport {
+    channelId: string;
+    channelType: number;
+    messageIds: string[];
+    /** Reader uid */
+    uid?: string;
+    /** Server-side read count, when known */
+    readCount?: number;
+}
+
+type ReceiptState = {
+    channel: ChannelRef;
+    readBy: Set<string>;
+    readCount: number;
+};
+
+export class ReceiptTracker {
+    private receipts: Map<string, ReceiptState> = new Map(); // messageId -> state, oldest first
+    private reported: Map<string, true> = new Map(); // messageIds this client already marked as read, oldest first
+
+    constructor(private readonly maxSize: number = 1000) {}
+
+    /**
+     * Applies a read report and returns the updated receipt of every message it changed.
+     * Reports from `ownUid` (our other devices) are ignored.
+     */
+    apply(report: ReceiptReport, ownUid?: string): ReceiptEvent[] {
+        if (report.uid !== undefined && report.uid === ownUid) {
+            return [];
+        }
+        const changed: ReceiptEvent[] = [];
+        report.messageIds.forEach(messageId => {
+            let state = this.receipts.get(messageId);
+            if (!state) {
+                state = { channel: { channelId: report.channelId, channelType: report.channelType }, readBy: new Set(), readCount: 0 };
+                this.receipts.set(messageId, state);
+                this.trim(this.receipts);
+            }
+            const before = state.readCount;
+            const isNewReader = report.uid !== undefined && !state.readBy.has(report.uid);
+            if (isNewReader) {
+                state.readBy.add(report.uid!);
+            }
+            state.readCount = Math.max(state.readCount, state.readBy.size, report.readCount ?? 0);
+            if (isNewReader || state.readCount !== before) {
+                changed.push(this.toEvent(messageId, state));
+            }
+        });
+        return changed;
+    }
+
+    /** Current receipt of a message, or null if no read was reported */
+    get(messageId: string): ReceiptEvent | null {
+        const state = this.receipts.get(messageId);
+        return state ? this.toEvent(messageId, state) : null;
+    }
+
+    /** The messageIds this client has not marked as read yet */
+    unreported(messageIds: string[]): string[] {
+        return messageIds.filter((messageId, index) => !this.reported.has(messageId) && messageIds.indexOf(messageId) === index);
+    }
+
+    /** Remembers messageIds as marked read so they are not reported again */
+    markReported(messageIds: string[]): void {
+        messageIds.forEach(messageId => this.reported.set(messageId, true));
+        this.trim(this.reported);
+    }
+
+    clear(): void {
+        this.receipts.clear();
+        this.reported.clear();
+    }
+
+    private trim(map: Map<string, unknown>): void {
+        while (map.size > this.maxSize) {
+            map.delete(map.keys().next().value as string);
+        }
+    }
+
+    private toEvent(messageId: string, state: ReceiptState): ReceiptEvent {
+        return {
+            messageId,
+            channelId: state.channel.channelId,
+            channelType: state.channel.channelType,
+            readBy: Array.from(state.readBy),
+            readCount: state.readCount,
+        };
+    }
+}
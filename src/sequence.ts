@@ -0,0 +1,120 @@
+// --- Per-Channel Sequence Tracking ---
+//
+// Every persisted message carries a per-channel messageSeq. Tracking the highest sequence seen in
+// each channel reveals dropped messages as jumps; the skipped ranges are kept until they are filled
+// (late or backfilled messages) so they can be requested from a sync source after a reconnect.
+
+export interface ChannelRef {
+    channelId: string;
+    channelType: number;
+}
+
+export interface SequenceRange {
+    channel: ChannelRef;
+    /** First missing sequence (inclusive) */
+    from: number;
+    /** Last missing sequence (inclusive); undefined means "up to the latest message" */
+    to?: number;
+}
+
+type ChannelSequence = {
+    channel: ChannelRef;
+    highWater: number;
+    gaps: Array<{ from: number; to: number }>; // Sorted, non-overlapping
+};
+
+const MAX_GAPS_PER_CHANNEL = 50; // Oldest ranges are forgotten beyond this
+
+export class SequenceTracker {
+    private channels: Map<string, ChannelSequence> = new Map();
+
+    /**
+     * Records a received sequence. Returns the newly detected gap, or null when the sequence is
+     * the next one expected, the first one seen in the channel, or fills (part of) an earlier gap.
+     */
+    track(channel: ChannelRef, seq: number): SequenceRange | null {
+        if (!(seq > 0)) {
+            return null; // Unpersisted messages have no sequence
+        }
+        const key = this.key(channel);
+        const state = this.channels.get(key);
+        if (!state) {
+            this.channels.set(key, { channel: { channelId: channel.channelId, channelType: channel.channelType }, highWater: seq, gaps: [] });
+            return null;
+        }
+        if (seq <= state.highWater) {
+            this.fill(state, seq);
+            return null;
+        }
+        const previous = state.highWater;
+        state.highWater = seq;
+        if (seq === previous + 1) {
+            return null;
+        }
+        const gap = { from: previous + 1, to: seq - 1 };
+        state.gaps.push(gap);
+        if (state.gaps.length > MAX_GAPS_PER_CHANNEL) {
+            state.gaps.shift();
+        }
+        return { channel: state.channel, ...gap };
+    }
+
+    /** Highest sequence seen in the channel, or null if none */
+    highWater(channel: ChannelRef): number | null {
+        return this.channels.get(this.key(channel))?.highWater ?? null;
+    }
+
+    /** Ranges still missing, one entry per gap */
+    gaps(): SequenceRange[] {
+        const ranges: SequenceRange[] = [];
+        this.channels.forEach(state => state.gaps.forEach(gap => ranges.push({ channel: state.channel, ...gap })));
+        return ranges;
+    }
+
+    /**
+     * Ranges to request after a reconnect: every open gap, plus everything after the high-water mark
+     * of each tracked channel (messages that may have been sent while the connection was down).
+     */
+    syncRanges(): SequenceRange[] {
+        const ranges = this.gaps();
+        this.channels.forEach(state => ranges.push({ channel: state.channel, from: state.highWater + 1 }));
+        return ranges;
+    }
+
+    /**
+     * Forgets the gaps inside a range once it has been backfilled, so messages that no longer exist
+     * are not requested again. An open-ended range covers everything from `range.from` on.
+     */
+    resolve(range: SequenceRange): void {
+        const state = this.channels.get(this.key(range.channel));
+        if (!state) {
+            return;
+        }
+        const to = range.to ?? Infinity;
+        state.gaps = state.gaps.filter(gap => gap.to < range.from || gap.from > to);
+    }
+
+    clear(): void {
+        this.channels.clear();
+    }
+
+    private fill(state: ChannelSequence, seq: number): void {
+        const index = state.gaps.findIndex(gap => seq >= gap.from && seq <= gap.to);
+        if (index === -1) {
+            return;
+        }
+        const gap = state.gaps[index];
+        const rest: Array<{ from: number; to: number }> = [];
+        if (gap.from < seq) {
+            rest.push({ from: gap.from, to: seq - 1 });
+        }
+        if (seq < gap.to) {
+            rest.push({ from: seq + 1, to: gap.to });
+        }
+        state.gaps.splice(index, 1, ...rest);
+    }
+
+    private key(channel: ChannelRef): string {
+        return `${channel.channelType}:${channel.channelId}`;
+    }
+}
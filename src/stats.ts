@@ -0,0 +1,258 @@
+// --- Connection and Messaging Metrics ---
+//
+// Counters and latency samples behind WKIM.getStats(). Latency percentiles are computed over a
+// sliding window of recent samples; an outage is measured from the first reconnect attempt to the
+// next successful connect, however many backoff cycles it takes.
+
+export interface LatencyStats {
+    /** Samples recorded since the last reset */
+    count: number;
+    /** Most recent sample, in ms */
+    last: number | null;
+    min: number | null;
+    max: number | null;
+    avg: number | null;
+    /** Percentiles over the most recent samples (see StatsCollector window size), in ms */
+    p50: number | null;
+    p90: number | null;
+    p99: number | null;
+}
+
+export interface MessageCounters {
+    /** Send requests written to the socket (including retries after reconnect) */
+    sent: number;
+    /** Messages delivered to the app */
+    received: number;
+    /** Sends acknowledged by the server */
+    acked: number;
+}
+
+export interface ReconnectStats {
+    /** Reconnect attempts scheduled */
+    attempts: number;
+    /** Outages that ended with a successful reconnect */
+    successes: number;
+    /** Duration of the last completed outage, in ms */
+    lastDurationMs: number | null;
+    /** Total duration of completed outages, in ms */
+    totalDurationMs: number;
+    /** Duration of the outage in progress, in ms (null while connected) */
+    currentOutageMs: number | null;
+}
+
+export interface WKIMStats {
+    /** When the counters were last reset (ms since epoch) */
+    since: number;
+    /** When this snapshot was taken (ms since epoch) */
+    timestamp: number;
+    pingRtt: LatencyStats;
+    /** Time from sending a message to its server ack */
+    sendLatency: LatencyStats;
+    reconnects: ReconnectStats;
+    messages: MessageCounters & { byChannelType: Record<number, MessageCounters> };
+    /** Requests waiting for a response right now */
+    pendingRequests: number;
+    bytesIn: number;
+    bytesOut: number;
+    lastError: { message: string; code?: number; timestamp: number } | null;
+}
+
+class LatencyRecorder {
+    private samples: number[] = [];
+    private count = 0;
+    private sum = 0;
+    private min: number | null = null;
+    private max: number | null = null;
+    private last: number | null = null;
+
+    constructor(private readonly windowSize: number) {}
+
+    add(value: number): void {
+        this.samples.push(value);
+        if (this.samples.length > this.windowSize) {
+            this.samples.shift();
+        }
+        this.count++;
+        this.sum += value;
+        this.min = this.min === null ? value : Math.min(this.min, value);
+        this.max = this.max === null ? value : Math.max(this.max, value);
+        this.last = value;
+    }
+
+    snapshot(): LatencyStats {
+        const sorted = this.samples.slice().sort((a, b) => a - b);
+        // Nearest-rank percentile
+        const percentile = (p: number) => sorted.length ? sorted[Math.max(0, Math.ceil(p / 100 * sorted.length) - 1)] : null;
+        return {
+            count: this.count,
+            last: this.last,
+            min: this.min,
+            max: this.max,
+            avg: this.count ? Math.round(this.sum / this.count) : null,
+            p50: percentile(50),
+            p90: percentile(90),
+            p99: percentile(99),
+        };
+    }
+}
+
+/**
+ * Returns the size of a WebSocket frame in bytes (UTF-8 length for text frames).
+ */
+export function frameSize(data: any): number {
+    if (typeof data === 'string') {
+        let bytes = 0;
+        for (let i = 0; i < data.length; i++) {
+            const code = data.charCodeAt(i);
+            if (code < 0x80) {
+                bytes += 1;
+            } else if (code < 0x800) {
+                bytes += 2;
+            } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < data.length) {
+                bytes += 4; // Surrogate pair
+                i++;
+            } else {
+                bytes += 3;
+            }
+        }
+        return bytes;
+    }
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+        return data.byteLength;
+    }
+    return 0;
+}
+
+export class StatsCollector {
+    private since: number = Date.now();
+    private pingRtt: LatencyRecorder;
+    private sendLatency: LatencyRecorder;
+    private messages: MessageCounters = { sent: 0, received: 0, acked: 0 };
+    private byChannelType: Record<number, MessageCounters> = {};
+    private reconnectAttempts = 0;
+    private reconnectSuccesses = 0;
+    private lastOutageMs: number | null = null;
+    private totalOutageMs = 0;
+    private outageStartedAt: number | null = null; // Survives reset() so the running outage is measured in full
+    private bytesIn = 0;
+    private bytesOut = 0;
+    private lastError: WKIMStats['lastError'] = null;
+
+    constructor(private readonly windowSize: number = 256) {
+        this.pingRtt = new LatencyRecorder(windowSize);
+        this.sendLatency = new LatencyRecorder(windowSize);
+    }
+
+    recordPing(rtt: number): void {
+        this.pingRtt.add(Math.max(0, rtt));
+    }
+
+    recordSent(channelType: number): void {
+        this.messages.sent++;
+        this.channel(channelType).sent++;
+    }
+
+    recordReceived(channelType: number): void {
+        this.messages.received++;
+        this.channel(channelType).received++;
+    }
+
+    recordAcked(channelType: number, latency: number): void {
+        this.messages.acked++;
+        this.channel(channelType).acked++;
+        this.sendLatency.add(Math.max(0, latency));
+    }
+
+    recordBytesIn(data: any): void {
+        this.bytesIn += frameSize(data);
+    }
+
+    recordBytesOut(data: any): void {
+        this.bytesOut += frameSize(data);
+    }
+
+    recordError(error: any): void {
+        this.lastError = {
+            message: error instanceof Error ? error.message : String(error?.message ?? error),
+            ...(typeof error?.code === 'number' ? { code: error.code } : {}),
+            timestamp: Date.now(),
+        };
+    }
+
+    /** Marks the start of an outage (idempotent while one is in progress) */
+    outageStarted(): void {
+        if (this.outageStartedAt === null) {
+            this.outageStartedAt = Date.now();
+        }
+    }
+
+    recordReconnectAttempt(): void {
+        this.outageStarted();
+        this.reconnectAttempts++;
+    }
+
+    /** Ends the outage in progress, counting it as a successful reconnect */
+    recordConnected(): void {
+        if (this.outageStartedAt === null) {
+            return;
+        }
+        const duration = Date.now() - this.outageStartedAt;
+        this.outageStartedAt = null;
+        this.reconnectSuccesses++;
+        this.lastOutageMs = duration;
+        this.totalOutageMs += duration;
+    }
+
+    /** Forgets the outage in progress (manual disconnect, or reconnection gave up) */
+    abandonOutage(): void {
+        this.outageStartedAt = null;
+    }
+
+    reset(): void {
+        this.since = Date.now();
+        this.pingRtt = new LatencyRecorder(this.windowSize);
+        this.sendLatency = new LatencyRecorder(this.windowSize);
+        this.messages = { sent: 0, received: 0, acked: 0 };
+        this.byChannelType = {};
+        this.reconnectAttempts = 0;
+        this.reconnectSuccesses = 0;
+        this.lastOutageMs = null;
+        this.totalOutageMs = 0;
+        this.bytesIn = 0;
+        this.bytesOut = 0;
+        this.lastError = null;
+    }
+
+    snapshot(pendingRequests: number): WKIMStats {
+        const now = Date.now();
+        const byChannelType: Record<number, MessageCounters> = {};
+        Object.keys(this.byChannelType).forEach(key => {
+            byChannelType[Number(key)] = { ...this.byChannelType[Number(key)] };
+        });
+        return {
+            since: this.since,
+            timestamp: now,
+            pingRtt: this.pingRtt.snapshot(),
+            sendLatency: this.sendLatency.snapshot(),
+            reconnects: {
+                attempts: this.reconnectAttempts,
+                successes: this.reconnectSuccesses,
+                lastDurationMs: this.lastOutageMs,
+                totalDurationMs: this.totalOutageMs,
+                currentOutageMs: this.outageStartedAt === null ? null : now - this.outageStartedAt,
+            },
+            messages: { ...this.messages, byChannelType },
+            pendingRequests,
+            bytesIn: this.bytesIn,
+            bytesOut: this.bytesOut,
+            lastError: this.lastError ? { ...this.lastError } : null,
+        };
+    }
+
+    private channel(channelType: number): MessageCounters {
+        if (!this.byChannelType[channelType]) {
+            this.byChannelType[channelType] = { sent: 0, received: 0, acked: 0 };
+        }
+        return this.byChannelType[channelType];
+    }
+}
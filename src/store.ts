@@ -0,0 +1,374 @@
+// --- Local Message Store ---
+//
+// A pluggable persistence layer for sent and received messages. The SDK writes to the configured
+// IMessageStore automatically; apps read history from it with getMessages(channel, { beforeSeq, limit }).
+// Built-in backends: in-memory, browser IndexedDB and a Node.js JSON file. Messages past their expiresAt
+// are never returned, so ephemeral messages do not outlive a restart.
+
+import type { ChannelRef } from './sequence';
+
+export interface StoredMessage {
+    messageId: string;
+    messageSeq: number;
+    clientMsgNo?: string;
+    channelId: string;
+    channelType: number;
+    fromUid: string;
+    /** Server timestamp in seconds */
+    timestamp: number;
+    payload: any;
+    topic?: string;
+    /** Local expiry time in ms (messages sent or received with `expire`) */
+    expiresAt?: number;
+    /** True for messages sent from this client */
+    outgoing?: boolean;
+}
+
+export interface MessageQuery {
+    /** Only messages with a messageSeq greater than this */
+    afterSeq?: number;
+    /** Only messages with a messageSeq less than this */
+    beforeSeq?: number;
+    /** Maximum number of messages (default: all) */
+    limit?: number;
+}
+
+export interface IMessageStore {
+    put(message: StoredMessage): Promise<void>;
+    /** Returns null for unknown and expired messages */
+    get(messageId: string): Promise<StoredMessage | null>;
+    /**
+     * Returns a channel's unexpired messages in ascending messageSeq order. When `limit` cuts the result, the
+     * messages closest to `beforeSeq` (or the newest ones) are kept, unless only `afterSeq` is given,
+     * in which case the ones right after it are kept. Page backwards with `beforeSeq: page[0].messageSeq`.
+     */
+    getMessages(channel: ChannelRef, query?: MessageQuery): Promise<StoredMessage[]>;
+    delete(messageId: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+function channelKey(channel: ChannelRef): string {
+    return `${channel.channelType}:${channel.channelId}`;
+}
+
+/** True when a limited query keeps the oldest matches instead of the newest */
+function keepsOldest(query: MessageQuery): boolean {
+    return query.afterSeq !== undefined && query.beforeSeq === undefined;
+}
+
+function isExpired(message: StoredMessage, now: number = Date.now()): boolean {
+    return message.expiresAt !== undefined && message.expiresAt <= now;
+}
+
+function inRange(seq: number, query: MessageQuery): boolean {
+    return (query.afterSeq === undefined || seq > query.afterSeq)
+        && (query.beforeSeq === undefined || seq < query.beforeSeq);
+}
+
+// --- In-Memory Store ---
+
+export class MemoryMessageStore implements IMessageStore {
+    private messages: Map<string, StoredMessage> = new Map();
+    private channels: Map<string, Set<string>> = new Map(); // channel key -> messageIds
+
+    async put(message: StoredMessage): Promise<void> {
+        const previous = this.messages.get(message.messageId);
+        if (previous) {
+            this.channels.get(channelKey(previous))?.delete(message.messageId);
+        }
+        this.messages.set(message.messageId, { ...message });
+        const key = channelKey(message);
+        if (!this.channels.has(key)) {
+            this.channels.set(key, new Set());
+        }
+        this.channels.get(key)!.add(message.messageId);
+    }
+
+    async get(messageId: string): Promise<StoredMessage | null> {
+        const message = this.messages.get(messageId);
+        return message && !isExpired(message) ? { ...message } : null;
+    }
+
+    async getMessages(channel: ChannelRef, query: MessageQuery = {}): Promise<StoredMessage[]> {
+        const ids = this.channels.get(channelKey(channel));
+        if (!ids) {
+            return [];
+        }
+        const now = Date.now();
+        const matches = Array.from(ids)
+            .map(id => this.messages.get(id)!)
+            .filter(message => inRange(message.messageSeq, query) && !isExpired(message, now))
+            .sort((a, b) => a.messageSeq - b.messageSeq);
+        const limited = query.limit === undefined || matches.length <= query.limit
+            ? matches
+            : keepsOldest(query) ? matches.slice(0, query.limit) : matches.slice(matches.length - query.limit);
+        return limited.map(message => ({ ...message }));
+    }
+
+    async delete(messageId: string): Promise<void> {
+        const message = this.messages.get(messageId);
+        if (message) {
+            this.messages.delete(messageId);
+            this.channels.get(channelKey(message))?.delete(messageId);
+        }
+    }
+
+    async clear(): Promise<void> {
+        this.messages.clear();
+        this.channels.clear();
+    }
+
+    /** All unexpired messages, in no particular order (used by FileMessageStore to serialize) */
+    all(): StoredMessage[] {
+        const now = Date.now();
+        return Array.from(this.messages.values()).filter(message => !isExpired(message, now)).map(message => ({ ...message }));
+    }
+}
+
+// --- IndexedDB Store (browsers) ---
+
+const IDB_STORE_NAME = 'messages';
+const IDB_CHANNEL_INDEX = 'channelSeq';
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/** IndexedDB implementation to use instead of the globals, e.g. from fake-indexeddb */
+export interface IndexedDBEnvironment {
+    indexedDB?: IDBFactory;
+    IDBKeyRange?: typeof IDBKeyRange;
+}
+
+export class IndexedDBMessageStore implements IMessageStore {
+    private db: Promise<IDBDatabase> | null = null;
+
+    /**
+     * @param dbName Database name; use one per user (e.g. `wkim-${uid}`) when accounts can switch
+     * @param environment indexedDB / IDBKeyRange to use (default: the globals)
+     */
+    constructor(private readonly dbName: string = 'wkim-messages', private readonly environment: IndexedDBEnvironment = {}) {}
+
+    async put(message: StoredMessage): Promise<void> {
+        const store = await this.objectStore('readwrite');
+        await idbRequest(store.put({ ...message, channelKey: channelKey(message) }));
+    }
+
+    async get(messageId: string): Promise<StoredMessage | null> {
+        const store = await this.objectStore('readonly');
+        const record = await idbRequest(store.get(messageId));
+        return record && !isExpired(record) ? this.fromRecord(record) : null;
+    }
+
+    async getMessages(channel: ChannelRef, query: MessageQuery = {}): Promise<StoredMessage[]> {
+        const store = await this.objectStore('readonly');
+        const key = channelKey(channel);
+        const keyRange = this.environment.IDBKeyRange || IDBKeyRange;
+        const range = keyRange.bound(
+            [key, query.afterSeq ?? -Infinity],
+            [key, query.beforeSeq ?? Infinity],
+            query.afterSeq !== undefined,
+            query.beforeSeq !== undefined
+        );
+        const oldestFirst = keepsOldest(query);
+        const request = store.index(IDB_CHANNEL_INDEX).openCursor(range, oldestFirst ? 'next' : 'prev');
+        const results: StoredMessage[] = [];
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (cursor && (query.limit === undefined || results.length < query.limit)) {
+                    if (!isExpired(cursor.value, now)) {
+                        results.push(this.fromRecord(cursor.value));
+                    }
+                    cursor.continue();
+                    return;
+                }
+                resolve(oldestFirst ? results : results.reverse());
+            };
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    async delete(messageId: string): Promise<void> {
+        const store = await this.objectStore('readwrite');
+        await idbRequest(store.delete(messageId));
+    }
+
+    async clear(): Promise<void> {
+        const store = await this.objectStore('readwrite');
+        await idbRequest(store.clear());
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            const factory = this.environment.indexedDB || (typeof indexedDB !== 'undefined' ? indexedDB : null);
+            if (!factory) {
+                return Promise.reject(new Error('IndexedDB is not available in this environment.'));
+            }
+            this.db = new Promise((resolve, reject) => {
+                const request = factory.open(this.dbName, 1);
+                request.onupgradeneeded = () => {
+                    const store = request.result.createObjectStore(IDB_STORE_NAME, { keyPath: 'messageId' });
+                    store.createIndex(IDB_CHANNEL_INDEX, ['channelKey', 'messageSeq']);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.db = null; // Allow a retry
+                    reject(request.error);
+                };
+            });
+        }
+        return this.db;
+    }
+
+    private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const db = await this.open();
+        return db.transaction(IDB_STORE_NAME, mode).objectStore(IDB_STORE_NAME);
+    }
+
+    private fromRecord(record: any): StoredMessage {
+        const { channelKey: _channelKey, ...message } = record;
+        return message;
+    }
+}
+
+// --- JSON File Store (Node.js) ---
+
+/** The subset of fs.promises used by FileMessageStore */
+export interface FileSystem {
+    readFile(path: string, encoding: 'utf8'): Promise<string>;
+    writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+    rename(oldPath: string, newPath: string): Promise<void>;
+    unlink(path: string): Promise<void>;
+}
+
+export interface FileMessageStoreOptions {
+    /** fs.promises-compatible implementation (default: Node's fs.promises) */
+    fileSystem?: FileSystem;
+    /** Changes made within this window (ms) are written together (default: 200) */
+    writeDelay?: number;
+}
+
+function nodeFileSystem(): FileSystem {
+    try {
+        // Resolved at runtime so bundlers for browsers and mini programs do not pull in fs
+        const dynamicRequire = new Function('mod', 'return require(mod)') as NodeRequire;
+        return dynamicRequire('fs').promises;
+    } catch (e) {
+        throw new Error('The file system is not available in this environment; FileMessageStore requires Node.js.');
+    }
+}
+
+/**
+ * Keeps every message in memory and saves them as one JSON file. Each save rewrites the whole file,
+ * so changes are coalesced: all puts/deletes within `writeDelay` share one write. Meant for bots,
+ * CLIs and tests with up to some ten thousand messages (a few MB of JSON); larger histories belong
+ * in IndexedDB or a database-backed IMessageStore.
+ */
+export class FileMessageStore implements IMessageStore {
+    private memory = new MemoryMessageStore();
+    private loaded: Promise<void> | null = null;
+    private writing: Promise<void> = Promise.resolve(); // The last write started or scheduled
+    private pendingWrite: Promise<void> | null = null; // Scheduled but not started; picks up every change until it starts
+    private fs: FileSystem | null;
+    private writeDelay: number;
+
+    /**
+     * @param filePath JSON file holding the messages; created on the first write
+     */
+    constructor(private readonly filePath: string, options: FileMessageStoreOptions = {}) {
+        this.fs = options.fileSystem || null;
+        this.writeDelay = options.writeDelay ?? 200;
+    }
+
+    /** Resolves once the message is on disk */
+    async put(message: StoredMessage): Promise<void> {
+        await this.load();
+        await this.memory.put(message);
+        return this.save();
+    }
+
+    async get(messageId: string): Promise<StoredMessage | null> {
+        await this.load();
+        return this.memory.get(messageId);
+    }
+
+    async getMessages(channel: ChannelRef, query?: MessageQuery): Promise<StoredMessage[]> {
+        await this.load();
+        return this.memory.getMessages(channel, query);
+    }
+
+    async delete(messageId: string): Promise<void> {
+        await this.load();
+        await this.memory.delete(messageId);
+        return this.save();
+    }
+
+    async clear(): Promise<void> {
+        await this.load();
+        await this.memory.clear();
+        return this.save();
+    }
+
+    private fileSystem(): FileSystem {
+        if (!this.fs) {
+            this.fs = nodeFileSystem();
+        }
+        return this.fs;
+    }
+
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = this.fileSystem().readFile(this.filePath, 'utf8')
+                .then(content => JSON.parse(content) as StoredMessage[])
+                .catch(error => {
+                    if (error?.code === 'ENOENT') {
+                        return [];
+                    }
+                    throw error;
+                })
+                // Expired messages are left out here and disappear from the file with the next write
+                .then(messages => Promise.all(messages.filter(message => !isExpired(message)).map(message => this.memory.put(message))))
+                .then(() => undefined);
+            this.loaded.catch(() => {
+                this.loaded = null; // Allow a retry
+            });
+        }
+        return this.loaded;
+    }
+
+    /**
+     * Schedules a write of the whole store, or joins the one already scheduled. Writes never overlap.
+     */
+    private save(): Promise<void> {
+        if (!this.pendingWrite) {
+            const pending: Promise<void> = this.writing
+                .catch(() => undefined) // A failed write must not block the next one
+                .then(() => new Promise<void>(resolve => setTimeout(resolve, this.writeDelay)))
+                .then(() => {
+                    this.pendingWrite = null; // Changes from now on need another write
+                    return this.writeFile();
+                });
+            this.pendingWrite = pending;
+            this.writing = pending;
+        }
+        return this.pendingWrite;
+    }
+
+    /**
+     * Writes through a temporary file so a crash never leaves a truncated file behind.
+     */
+    private writeFile(): Promise<void> {
+        const fs = this.fileSystem();
+        const tempPath = `${this.filePath}.tmp`;
+        return fs.writeFile(tempPath, JSON.stringify(this.memory.all()), 'utf8')
+            .then(() => fs.rename(tempPath, this.filePath))
+            .catch(error => fs.unlink(tempPath)
+                .catch(() => undefined) // Never written, or already gone
+                .then(() => { throw error; }));
+    }
+}
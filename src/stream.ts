@@ -0,0 +1,284 @@
+// --- Streaming Messages ---
+//
+// A stream is a run of messages sharing a streamNo (e.g. an AI reply written token by token).
+// The sender side is a small writer over send(); the receive side reassembles chunks in streamId
+// order, buffering chunks that arrive early and skipping chunks that are still missing after a timeout.
+// A stream that stops receiving chunks altogether (lost End chunk, sender gone) is ended after an idle timeout.
+
+import type { RecvMessage, SendResult } from './index';
+
+export enum StreamFlag {
+    Start = 0,
+    Ing = 1,
+    End = 2,
+}
+
+export interface StreamWriter {
+    /** Stream number shared by every chunk */
+    readonly streamNo: string;
+    /** True once end() has been called */
+    readonly ended: boolean;
+    /** Sends a chunk; a string is sent as { content: chunk } */
+    write(chunk: string | object): Promise<SendResult>;
+    /** Sends the final chunk (an empty payload when omitted) and closes the writer */
+    end(chunk?: string | object): Promise<SendResult>;
+}
+
+export interface StreamEvent {
+    streamNo: string;
+    channelId: string;
+    channelType: number;
+    fromUid: string;
+    /** Payload of the chunk just applied (StreamDelta only) */
+    delta?: any;
+    /** Chunk payloads applied so far, in order */
+    chunks: any[];
+    /** Concatenated text of the chunks (string payloads or their `content` field) */
+    content: string;
+    /**
+     * streamIds skipped because they did not arrive within streamGapTimeout; 'start' when the Start chunk
+     * never arrived, 'end' when the stream was ended after streamIdleTimeout without its End chunk
+     */
+    missing: string[];
+    /** The received chunk behind this event */
+    message: RecvMessage;
+}
+
+export interface StreamAssemblerCallbacks {
+    onStart: (event: StreamEvent) => void;
+    onDelta: (event: StreamEvent) => void;
+    onEnd: (event: StreamEvent) => void;
+}
+
+type StreamState = {
+    first: RecvMessage;
+    nextSeq: number | null; // Unknown until the Start chunk arrives
+    buffered: Map<number, RecvMessage>;
+    chunks: any[];
+    content: string;
+    missing: string[];
+    started: boolean;
+    last: RecvMessage; // Most recently received chunk
+    gapTimer: ReturnType<typeof setTimeout> | null;
+    idleTimer: ReturnType<typeof setTimeout> | null;
+};
+
+const ENDED_STREAMS_MAX = 100; // Remembered so late duplicates of finished streams are dropped
+
+function toChunkPayload(chunk: string | object | undefined): object {
+    if (chunk === undefined) {
+        return {};
+    }
+    return typeof chunk === 'string' ? { content: chunk } : chunk;
+}
+
+function chunkText(payload: any): string {
+    if (typeof payload === 'string') {
+        return payload;
+    }
+    return typeof payload?.content === 'string' ? payload.content : '';
+}
+
+function isEmptyChunk(payload: any): boolean {
+    return payload === null || payload === undefined || payload === ''
+        || (typeof payload === 'object' && Object.keys(payload).length === 0);
+}
+
+export class MessageStreamWriter implements StreamWriter {
+    private _ended = false;
+    private started = false;
+
+    constructor(
+        readonly streamNo: string,
+        private readonly sendChunk: (payload: object, streamFlag: StreamFlag) => Promise<SendResult>
+    ) {}
+
+    get ended(): boolean {
+        return this._ended;
+    }
+
+    write(chunk: string | object): Promise<SendResult> {
+        if (this._ended) {
+            return Promise.reject(new Error(`Stream ${this.streamNo} has already ended.`));
+        }
+        const flag = this.started ? StreamFlag.Ing : StreamFlag.Start;
+        this.started = true;
+        return this.sendChunk(toChunkPayload(chunk), flag);
+    }
+
+    end(chunk?: string | object): Promise<SendResult> {
+        if (this._ended) {
+            return Promise.reject(new Error(`Stream ${this.streamNo} has already ended.`));
+        }
+        this._ended = true;
+        return this.sendChunk(toChunkPayload(chunk), StreamFlag.End);
+    }
+}
+
+export class StreamAssembler {
+    private streams: Map<string, StreamState> = new Map();
+    private endedStreams: string[] = [];
+
+    constructor(
+        private readonly callbacks: StreamAssemblerCallbacks,
+        private readonly gapTimeout: number = 3000,
+        private readonly idleTimeout: number = 30000
+    ) {}
+
+    /**
+     * Adds a received chunk (a message with setting.stream and a streamNo).
+     */
+    push(message: RecvMessage): void {
+        const streamNo = message.streamNo!;
+        if (this.endedStreams.includes(streamNo)) {
+            return;
+        }
+        const seq = Number(message.streamId ?? 0);
+        let state = this.streams.get(streamNo);
+        if (!state) {
+            state = {
+                first: message, nextSeq: null, buffered: new Map(), chunks: [], content: '', missing: [],
+                started: false, last: message, gapTimer: null, idleTimer: null,
+            };
+            this.streams.set(streamNo, state);
+        }
+        if ((state.nextSeq !== null && seq < state.nextSeq) || state.buffered.has(seq)) {
+            return; // Duplicate
+        }
+        state.last = message;
+        this.armIdleTimer(streamNo, state);
+        state.buffered.set(seq, message);
+        if (message.streamFlag === StreamFlag.Start && state.nextSeq === null) {
+            state.nextSeq = seq;
+        }
+        this.drain(streamNo, state);
+    }
+
+    /** Number of streams still being assembled */
+    get activeCount(): number {
+        return this.streams.size;
+    }
+
+    /** Drops all partial streams and their timers */
+    clear(): void {
+        this.streams.forEach(state => this.clearTimers(state));
+        this.streams.clear();
+    }
+
+    private armIdleTimer(streamNo: string, state: StreamState): void {
+        if (state.idleTimer) {
+            clearTimeout(state.idleTimer);
+        }
+        state.idleTimer = setTimeout(() => {
+            state.idleTimer = null;
+            this.expire(streamNo, state);
+        }, this.idleTimeout);
+    }
+
+    /**
+     * Ends a stream that received no chunk within idleTimeout: applies what is buffered, skipping
+     * gaps, and emits the end without waiting for the End chunk any longer.
+     */
+    private expire(streamNo: string, state: StreamState): void {
+        while (this.streams.get(streamNo) === state && state.buffered.size > 0) {
+            this.skipGap(streamNo, state);
+        }
+        if (this.streams.get(streamNo) !== state) {
+            return; // A buffered End chunk ended it
+        }
+        state.missing.push('end');
+        this.finish(streamNo, state, state.last);
+    }
+
+    private clearTimers(state: StreamState): void {
+        if (state.gapTimer) {
+            clearTimeout(state.gapTimer);
+            state.gapTimer = null;
+        }
+        if (state.idleTimer) {
+            clearTimeout(state.idleTimer);
+            state.idleTimer = null;
+        }
+    }
+
+    private drain(streamNo: string, state: StreamState): void {
+        while (state.nextSeq !== null && state.buffered.has(state.nextSeq)) {
+            const message = state.buffered.get(state.nextSeq)!;
+            state.buffered.delete(state.nextSeq);
+            state.nextSeq++;
+            if (this.apply(streamNo, state, message)) {
+                return;
+            }
+        }
+
+        if (state.gapTimer) {
+            clearTimeout(state.gapTimer);
+            state.gapTimer = null;
+        }
+        if (state.buffered.size > 0) {
+            state.gapTimer = setTimeout(() => {
+                state.gapTimer = null;
+                this.skipGap(streamNo, state);
+            }, this.gapTimeout);
+        }
+    }
+
+    /**
+     * Gives up on the chunks before the earliest buffered one and continues from there.
+     */
+    private skipGap(streamNo: string, state: StreamState): void {
+        const earliest = Math.min(...Array.from(state.buffered.keys()));
+        if (state.nextSeq === null) {
+            state.missing.push('start');
+        } else {
+            for (let seq = state.nextSeq; seq < earliest; seq++) {
+                state.missing.push(String(seq));
+            }
+        }
+        state.nextSeq = earliest;
+        this.drain(streamNo, state);
+    }
+
+    /**
+     * Applies one in-order chunk. Returns true when it ended the stream.
+     */
+    private apply(streamNo: string, state: StreamState, message: RecvMessage): boolean {
+        if (!state.started) {
+            state.started = true;
+            this.callbacks.onStart(this.snapshot(streamNo, state, message));
+        }
+        if (!isEmptyChunk(message.payload)) {
+            state.chunks.push(message.payload);
+            state.content += chunkText(message.payload);
+            this.callbacks.onDelta({ ...this.snapshot(streamNo, state, message), delta: message.payload });
+        }
+        if (message.streamFlag !== StreamFlag.End) {
+            return false;
+        }
+        this.finish(streamNo, state, message);
+        return true;
+    }
+
+    private finish(streamNo: string, state: StreamState, message: RecvMessage): void {
+        this.clearTimers(state);
+        this.streams.delete(streamNo);
+        this.endedStreams.push(streamNo);
+        if (this.endedStreams.length > ENDED_STREAMS_MAX) {
+            this.endedStreams.shift();
+        }
+        this.callbacks.onEnd(this.snapshot(streamNo, state, message));
+    }
+
+    private snapshot(streamNo: string, state: StreamState, message: RecvMessage): StreamEvent {
+        return {
+            streamNo,
+            channelId: state.first.channelId,
+            channelType: state.first.channelType,
+            fromUid: state.first.fromUid,
+            chunks: state.chunks.slice(),
+            content: state.content,
+            missing: state.missing.slice(),
+            message,
+        };
+    }
+}
@@ -0,0 +1,594 @@
+// --- WuKongIM Secure Mode (payload encryption) ---
+//
+// Implements the key agreement and payload encryption used by the official WuKongIM SDKs:
+// the client sends a Curve25519 public key (`clientKey`) with CONNECT, the server answers
+// with its own public key (`serverKey`) and a `salt`. Both sides derive
+//   aesKey = MD5(base64(sharedSecret)).substring(0, 16)
+//   aesIV  = salt.substring(0, 16)
+// Payloads travel as the UTF-8 bytes of base64(AES-128-CBC(plain)), and every message carries
+// `msgKey = MD5(base64(AES-128-CBC(signString)))` so the receiver can detect tampering.
+//
+// All primitives are pure JS: mini program runtimes have no WebCrypto, and the build
+// targets ES2016 (no BigInt).
+
+import { base64ToBytes, bytesToBase64 } from './wkproto';
+
+// --- Random bytes ---
+
+/** Fills `bytes` with cryptographically secure random values (same contract as crypto.getRandomValues) */
+export type RandomSource = (bytes: Uint8Array) => void;
+
+/**
+ * The runtime's CSPRNG: WebCrypto (browsers, Node.js 19+, recent mini program base libraries)
+ * or Node's crypto module. Null when neither exists.
+ */
+function defaultRandomSource(): RandomSource | null {
+    const cryptoApi = typeof globalThis !== 'undefined' ? (globalThis as any).crypto : undefined;
+    if (cryptoApi && typeof cryptoApi.getRandomValues === 'function') {
+        return bytes => cryptoApi.getRandomValues(bytes);
+    }
+    try {
+        // Resolved at runtime so bundlers for browsers and mini programs do not pull in crypto
+        const dynamicRequire = new Function('mod', 'return require(mod)') as NodeRequire;
+        const nodeCrypto = dynamicRequire('crypto');
+        if (typeof nodeCrypto.randomFillSync === 'function') {
+            return bytes => nodeCrypto.randomFillSync(bytes);
+        }
+    } catch (e) {
+        // Not Node.js
+    }
+    return null;
+}
+
+/**
+ * Whether secure random bytes can be produced, with `source` or the runtime's CSPRNG.
+ */
+export function hasSecureRandom(source?: RandomSource): boolean {
+    return !!(source || defaultRandomSource());
+}
+
+/**
+ * Returns cryptographically secure random bytes from `source`, or the runtime's CSPRNG.
+ * Throws when none is available: predictable key material would silently break secure mode.
+ */
+export function randomBytes(length: number, source?: RandomSource): Uint8Array {
+    const fill = source || defaultRandomSource();
+    if (!fill) {
+        throw new Error('No cryptographically secure random source is available; provide one with the randomSource option.');
+    }
+    const bytes = new Uint8Array(length);
+    fill(bytes);
+    return bytes;
+}
+
+// --- Curve25519 (X25519), field arithmetic ported from TweetNaCl ---
+
+type FieldElement = Float64Array;
+
+function gf(init?: number[]): FieldElement {
+    const r = new Float64Array(16);
+    if (init) {
+        for (let i = 0; i < init.length; i++) {
+            r[i] = init[i];
+        }
+    }
+    return r;
+}
+
+const A24 = gf([0xdb41, 1]); // 121665
+const BASE_POINT = new Uint8Array(32);
+BASE_POINT[0] = 9;
+
+function carry(o: FieldElement): void {
+    let c = 1;
+    for (let i = 0; i < 16; i++) {
+        const v = o[i] + c + 65535;
+        c = Math.floor(v / 65536);
+        o[i] = v - c * 65536;
+    }
+    o[0] += c - 1 + 37 * (c - 1);
+}
+
+function select(p: FieldElement, q: FieldElement, b: number): void {
+    const c = ~(b - 1);
+    for (let i = 0; i < 16; i++) {
+        const t = c & (p[i] ^ q[i]);
+        p[i] ^= t;
+        q[i] ^= t;
+    }
+}
+
+function pack(o: Uint8Array, n: FieldElement): void {
+    const m = gf();
+    const t = gf();
+    for (let i = 0; i < 16; i++) {
+        t[i] = n[i];
+    }
+    carry(t);
+    carry(t);
+    carry(t);
+    for (let j = 0; j < 2; j++) {
+        m[0] = t[0] - 0xffed;
+        for (let i = 1; i < 15; i++) {
+            m[i] = t[i] - 0xffff - ((m[i - 1] >> 16) & 1);
+            m[i - 1] &= 0xffff;
+        }
+        m[15] = t[15] - 0x7fff - ((m[14] >> 16) & 1);
+        const b = (m[15] >> 16) & 1;
+        m[14] &= 0xffff;
+        select(t, m, 1 - b);
+    }
+    for (let i = 0; i < 16; i++) {
+        o[2 * i] = t[i] & 0xff;
+        o[2 * i + 1] = t[i] >> 8;
+    }
+}
+
+function unpack(o: FieldElement, n: Uint8Array): void {
+    for (let i = 0; i < 16; i++) {
+        o[i] = n[2 * i] + (n[2 * i + 1] << 8);
+    }
+    o[15] &= 0x7fff;
+}
+
+function add(o: FieldElement, a: FieldElement, b: FieldElement): void {
+    for (let i = 0; i < 16; i++) {
+        o[i] = a[i] + b[i];
+    }
+}
+
+function sub(o: FieldElement, a: FieldElement, b: FieldElement): void {
+    for (let i = 0; i < 16; i++) {
+        o[i] = a[i] - b[i];
+    }
+}
+
+function mul(o: FieldElement, a: FieldElement, b: FieldElement): void {
+    const t = new Float64Array(31);
+    for (let i = 0; i < 16; i++) {
+        for (let j = 0; j < 16; j++) {
+            t[i + j] += a[i] * b[j];
+        }
+    }
+    for (let i = 0; i < 15; i++) {
+        t[i] += 38 * t[i + 16];
+    }
+    for (let i = 0; i < 16; i++) {
+        o[i] = t[i];
+    }
+    carry(o);
+    carry(o);
+}
+
+function invert(o: FieldElement, input: FieldElement): void {
+    const c = gf();
+    for (let i = 0; i < 16; i++) {
+        c[i] = input[i];
+    }
+    for (let a = 253; a >= 0; a--) {
+        mul(c, c, c);
+        if (a !== 2 && a !== 4) {
+            mul(c, c, input);
+        }
+    }
+    for (let i = 0; i < 16; i++) {
+        o[i] = c[i];
+    }
+}
+
+/**
+ * X25519 scalar multiplication (RFC 7748). Returns the 32-byte u-coordinate of scalar * point.
+ */
+export function x25519(scalar: Uint8Array, point: Uint8Array): Uint8Array {
+    if (scalar.length !== 32 || point.length !== 32) {
+        throw new Error('x25519: keys must be 32 bytes');
+    }
+    const z = new Uint8Array(scalar);
+    z[31] = (z[31] & 127) | 64;
+    z[0] &= 248;
+
+    const x = gf();
+    unpack(x, point);
+    const a = gf([1]);
+    const b = gf();
+    const c = gf();
+    const d = gf([1]);
+    const e = gf();
+    const f = gf();
+    for (let i = 0; i < 16; i++) {
+        b[i] = x[i];
+    }
+
+    for (let i = 254; i >= 0; --i) {
+        const bit = (z[i >>> 3] >>> (i & 7)) & 1;
+        select(a, b, bit);
+        select(c, d, bit);
+        add(e, a, c);
+        sub(a, a, c);
+        add(c, b, d);
+        sub(b, b, d);
+        mul(d, e, e);
+        mul(f, a, a);
+        mul(a, c, a);
+        mul(c, b, e);
+        add(e, a, c);
+        sub(a, a, c);
+        mul(b, a, a);
+        sub(c, d, f);
+        mul(a, c, A24);
+        add(a, a, d);
+        mul(c, c, a);
+        mul(a, d, f);
+        mul(d, b, x);
+        mul(b, e, e);
+        select(a, b, bit);
+        select(c, d, bit);
+    }
+
+    invert(c, c);
+    mul(a, a, c);
+    const out = new Uint8Array(32);
+    pack(out, a);
+    return out;
+}
+
+export interface KeyPair {
+    publicKey: Uint8Array;
+    privateKey: Uint8Array;
+}
+
+/**
+ * Generates a Curve25519 key pair.
+ * @param source CSPRNG to draw the private key from (default: the runtime's)
+ */
+export function generateKeyPair(source?: RandomSource): KeyPair {
+    const privateKey = randomBytes(32, source);
+    return { privateKey, publicKey: x25519(privateKey, BASE_POINT) };
+}
+
+// --- AES-128-CBC with PKCS#7 padding ---
+
+let SBOX: Uint8Array | null = null;
+let INV_SBOX: Uint8Array | null = null;
+
+function rotl8(x: number, shift: number): number {
+    return ((x << shift) | (x >>> (8 - shift))) & 0xff;
+}
+
+/** Builds the S-boxes from the GF(2^8) inverse and affine transform (avoids a 512-entry literal). */
+function sboxes(): [Uint8Array, Uint8Array] {
+    if (!SBOX || !INV_SBOX) {
+        const sbox = new Uint8Array(256);
+        const inv = new Uint8Array(256);
+        let p = 1;
+        let q = 1;
+        do {
+            // p * 3
+            p = (p ^ (p << 1) ^ (p & 0x80 ? 0x1b : 0)) & 0xff;
+            // q / 3
+            q ^= q << 1;
+            q ^= q << 2;
+            q ^= q << 4;
+            q &= 0xff;
+            if (q & 0x80) {
+                q ^= 0x09;
+            }
+            const s = q ^ rotl8(q, 1) ^ rotl8(q, 2) ^ rotl8(q, 3) ^ rotl8(q, 4) ^ 0x63;
+            sbox[p] = s;
+            inv[s] = p;
+        } while (p !== 1);
+        sbox[0] = 0x63;
+        inv[0x63] = 0;
+        SBOX = sbox;
+        INV_SBOX = inv;
+    }
+    return [SBOX, INV_SBOX];
+}
+
+function xtime(x: number): number {
+    return ((x << 1) ^ (x & 0x80 ? 0x1b : 0)) & 0xff;
+}
+
+function gmul(a: number, b: number): number {
+    let result = 0;
+    while (b) {
+        if (b & 1) {
+            result ^= a;
+        }
+        a = xtime(a);
+        b >>>= 1;
+    }
+    return result;
+}
+
+function expandKey(key: Uint8Array): Uint8Array {
+    if (key.length !== 16) {
+        throw new Error('aes: key must be 16 bytes');
+    }
+    const [sbox] = sboxes();
+    const w = new Uint8Array(176);
+    w.set(key);
+    let rcon = 1;
+    for (let i = 16; i < 176; i += 4) {
+        let t0 = w[i - 4], t1 = w[i - 3], t2 = w[i - 2], t3 = w[i - 1];
+        if (i % 16 === 0) {
+            const tmp = t0;
+            t0 = sbox[t1] ^ rcon;
+            t1 = sbox[t2];
+            t2 = sbox[t3];
+            t3 = sbox[tmp];
+            rcon = xtime(rcon);
+        }
+        w[i] = w[i - 16] ^ t0;
+        w[i + 1] = w[i - 15] ^ t1;
+        w[i + 2] = w[i - 14] ^ t2;
+        w[i + 3] = w[i - 13] ^ t3;
+    }
+    return w;
+}
+
+function addRoundKey(state: Uint8Array, w: Uint8Array, round: number): void {
+    for (let i = 0; i < 16; i++) {
+        state[i] ^= w[round * 16 + i];
+    }
+}
+
+function encryptBlock(state: Uint8Array, w: Uint8Array): void {
+    const [sbox] = sboxes();
+    const t = new Uint8Array(16);
+    addRoundKey(state, w, 0);
+    for (let round = 1; round <= 10; round++) {
+        // SubBytes + ShiftRows (state is column-major: index = column * 4 + row)
+        for (let c = 0; c < 4; c++) {
+            for (let r = 0; r < 4; r++) {
+                t[c * 4 + r] = sbox[state[((c + r) % 4) * 4 + r]];
+            }
+        }
+        if (round < 10) {
+            // MixColumns
+            for (let c = 0; c < 4; c++) {
+                const a0 = t[c * 4], a1 = t[c * 4 + 1], a2 = t[c * 4 + 2], a3 = t[c * 4 + 3];
+                state[c * 4] = xtime(a0) ^ xtime(a1) ^ a1 ^ a2 ^ a3;
+                state[c * 4 + 1] = a0 ^ xtime(a1) ^ xtime(a2) ^ a2 ^ a3;
+                state[c * 4 + 2] = a0 ^ a1 ^ xtime(a2) ^ xtime(a3) ^ a3;
+                state[c * 4 + 3] = xtime(a0) ^ a0 ^ a1 ^ a2 ^ xtime(a3);
+            }
+        } else {
+            state.set(t);
+        }
+        addRoundKey(state, w, round);
+    }
+}
+
+function decryptBlock(state: Uint8Array, w: Uint8Array): void {
+    const [, invSbox] = sboxes();
+    const t = new Uint8Array(16);
+    addRoundKey(state, w, 10);
+    for (let round = 9; round >= 0; round--) {
+        // InvShiftRows + InvSubBytes
+        for (let c = 0; c < 4; c++) {
+            for (let r = 0; r < 4; r++) {
+                t[((c + r) % 4) * 4 + r] = invSbox[state[c * 4 + r]];
+            }
+        }
+        state.set(t);
+        addRoundKey(state, w, round);
+        if (round > 0) {
+            // InvMixColumns
+            for (let c = 0; c < 4; c++) {
+                const a0 = state[c * 4], a1 = state[c * 4 + 1], a2 = state[c * 4 + 2], a3 = state[c * 4 + 3];
+                state[c * 4] = gmul(a0, 14) ^ gmul(a1, 11) ^ gmul(a2, 13) ^ gmul(a3, 9);
+                state[c * 4 + 1] = gmul(a0, 9) ^ gmul(a1, 14) ^ gmul(a2, 11) ^ gmul(a3, 13);
+                state[c * 4 + 2] = gmul(a0, 13) ^ gmul(a1, 9) ^ gmul(a2, 14) ^ gmul(a3, 11);
+                state[c * 4 + 3] = gmul(a0, 11) ^ gmul(a1, 13) ^ gmul(a2, 9) ^ gmul(a3, 14);
+            }
+        }
+    }
+}
+
+/**
+ * AES-128-CBC encryption with PKCS#7 padding.
+ */
+export function aesCbcEncrypt(key: Uint8Array, iv: Uint8Array, plain: Uint8Array): Uint8Array {
+    if (iv.length !== 16) {
+        throw new Error('aes: iv must be 16 bytes');
+    }
+    const w = expandKey(key);
+    const padding = 16 - (plain.length % 16);
+    const out = new Uint8Array(plain.length + padding);
+    out.set(plain);
+    out.fill(padding, plain.length);
+
+    let previous = iv;
+    for (let offset = 0; offset < out.length; offset += 16) {
+        const block = out.subarray(offset, offset + 16);
+        for (let i = 0; i < 16; i++) {
+            block[i] ^= previous[i];
+        }
+        encryptBlock(block, w);
+        previous = block;
+    }
+    return out;
+}
+
+/**
+ * AES-128-CBC decryption with PKCS#7 padding. Throws on malformed input or padding.
+ */
+export function aesCbcDecrypt(key: Uint8Array, iv: Uint8Array, cipher: Uint8Array): Uint8Array {
+    if (iv.length !== 16) {
+        throw new Error('aes: iv must be 16 bytes');
+    }
+    if (cipher.length === 0 || cipher.length % 16 !== 0) {
+        throw new Error('aes: ciphertext length must be a multiple of 16');
+    }
+    const w = expandKey(key);
+    const out = new Uint8Array(cipher);
+    let previous = iv;
+    for (let offset = 0; offset < out.length; offset += 16) {
+        const encrypted = cipher.subarray(offset, offset + 16);
+        const block = out.subarray(offset, offset + 16);
+        decryptBlock(block, w);
+        for (let i = 0; i < 16; i++) {
+            block[i] ^= previous[i];
+        }
+        previous = encrypted;
+    }
+
+    const padding = out[out.length - 1];
+    if (padding < 1 || padding > 16) {
+        throw new Error('aes: invalid padding');
+    }
+    for (let i = out.length - padding; i < out.length; i++) {
+        if (out[i] !== padding) {
+            throw new Error('aes: invalid padding');
+        }
+    }
+    return out.subarray(0, out.length - padding);
+}
+
+// --- MD5 ---
+
+const MD5_SHIFTS = [
+    7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+    5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+    4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+    6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const MD5_K: number[] = [];
+for (let i = 0; i < 64; i++) {
+    MD5_K[i] = Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0;
+}
+
+/**
+ * MD5 digest as a lowercase hex string. Strings are hashed as UTF-8.
+ */
+export function md5Hex(input: Uint8Array | string): string {
+    const data = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+    const paddedLength = (((data.length + 8) >>> 6) + 1) << 6;
+    const bytes = new Uint8Array(paddedLength);
+    bytes.set(data);
+    bytes[data.length] = 0x80;
+    const bitLength = data.length * 8;
+    bytes[paddedLength - 8] = bitLength & 0xff;
+    bytes[paddedLength - 7] = (bitLength >>> 8) & 0xff;
+    bytes[paddedLength - 6] = (bitLength >>> 16) & 0xff;
+    bytes[paddedLength - 5] = (bitLength >>> 24) & 0xff;
+    bytes[paddedLength - 4] = Math.floor(bitLength / 0x100000000) & 0xff;
+
+    let a0 = 0x67452301, b0 = 0xefcdab89, c0 = 0x98badcfe, d0 = 0x10325476;
+    const m = new Array<number>(16);
+    for (let offset = 0; offset < paddedLength; offset += 64) {
+        for (let i = 0; i < 16; i++) {
+            const o = offset + i * 4;
+            m[i] = bytes[o] | (bytes[o + 1] << 8) | (bytes[o + 2] << 16) | (bytes[o + 3] << 24);
+        }
+        let a = a0, b = b0, c = c0, d = d0;
+        for (let i = 0; i < 64; i++) {
+            let f: number;
+            let g: number;
+            if (i < 16) {
+                f = (b & c) | (~b & d);
+                g = i;
+            } else if (i < 32) {
+                f = (d & b) | (~d & c);
+                g = (5 * i + 1) % 16;
+            } else if (i < 48) {
+                f = b ^ c ^ d;
+                g = (3 * i + 5) % 16;
+            } else {
+                f = c ^ (b | ~d);
+                g = (7 * i) % 16;
+            }
+            const sum = (a + f + MD5_K[i] + m[g]) | 0;
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) | 0;
+        }
+        a0 = (a0 + a) | 0;
+        b0 = (b0 + b) | 0;
+        c0 = (c0 + c) | 0;
+        d0 = (d0 + d) | 0;
+    }
+
+    let hex = '';
+    [a0, b0, c0, d0].forEach(word => {
+        for (let i = 0; i < 4; i++) {
+            hex += ((word >>> (i * 8)) & 0xff).toString(16).padStart(2, '0');
+        }
+    });
+    return hex;
+}
+
+// --- Secure session ---
+
+/**
+ * Key agreement and payload encryption state for one connection.
+ * Create one per connect attempt; call establish() with the CONNACK's serverKey and salt.
+ */
+export class SecureSession {
+    private readonly keyPair: KeyPair;
+    private aesKey: Uint8Array | null = null;
+    private aesIV: Uint8Array | null = null;
+
+    constructor(keyPair: KeyPair = generateKeyPair()) {
+        this.keyPair = keyPair;
+    }
+
+    /** Base64 public key sent as `clientKey` in the connect request */
+    get clientKey(): string {
+        return bytesToBase64(this.keyPair.publicKey);
+    }
+
+    /** Whether establish() has derived the shared key */
+    get isEstablished(): boolean {
+        return this.aesKey !== null;
+    }
+
+    /**
+     * Derives the AES key and IV from the server's public key and salt.
+     */
+    establish(serverKey: string, salt: string): void {
+        const serverPublicKey = base64ToBytes(serverKey);
+        if (serverPublicKey.length !== 32) {
+            throw new Error('Invalid serverKey: expected a base64 Curve25519 public key');
+        }
+        const iv = new TextEncoder().encode(salt.substring(0, 16));
+        if (iv.length !== 16) {
+            throw new Error('Invalid salt: expected at least 16 characters');
+        }
+        const secret = x25519(this.keyPair.privateKey, serverPublicKey);
+        this.aesKey = new TextEncoder().encode(md5Hex(bytesToBase64(secret)).substring(0, 16));
+        this.aesIV = iv;
+    }
+
+    /**
+     * Encrypts raw bytes, returning base64(AES(data)).
+     */
+    encrypt(data: Uint8Array | string): string {
+        const plain = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+        return bytesToBase64(aesCbcEncrypt(this.requireKey(), this.aesIV!, plain));
+    }
+
+    /**
+     * Decrypts a base64(AES(data)) string back to raw bytes.
+     */
+    decrypt(encrypted: string): Uint8Array {
+        return aesCbcDecrypt(this.requireKey(), this.aesIV!, base64ToBytes(encrypted));
+    }
+
+    /**
+     * Computes the msgKey for a packet's sign string.
+     */
+    msgKey(signString: string): string {
+        return md5Hex(this.encrypt(signString));
+    }
+
+    private requireKey(): Uint8Array {
+        if (!this.aesKey) {
+            throw new Error('Secure session is not established');
+        }
+        return this.aesKey;
+    }
+}
@@ -0,0 +1,640 @@
+// --- WuKongIM Native Binary Protocol (wkproto) ---
+//
+// Translates between the JSON-RPC shaped messages used inside the SDK and native wkproto
+// frames, so the binary transport sits behind the same request/notification handling.
+//
+// Frame layout: 1 byte fixed header (packet type << 4 | flags), a variable-length
+// "remaining length" (7 bits per byte, MSB = continuation), then the packet body.
+// PING and PONG are a single header byte. Integers are big-endian; strings are
+// prefixed with a uint16 byte length; the payload always runs to the end of the frame.
+
+/**
+ * wkproto packet types
+ */
+export enum PacketType {
+    CONNECT = 1,
+    CONNACK = 2,
+    SEND = 3,
+    SENDACK = 4,
+    RECV = 5,
+    RECVACK = 6,
+    PING = 7,
+    PONG = 8,
+    DISCONNECT = 9,
+    SUB = 10,
+    SUBACK = 11,
+    EVENT = 12,
+}
+
+/** Latest wkproto version implemented by this codec */
+export const WKPROTO_VERSION = 4;
+
+// Fixed header flags
+const FLAG_DUP = 0x08;
+const FLAG_SYNC_ONCE = 0x04;
+const FLAG_RED_DOT = 0x02;
+const FLAG_NO_PERSIST = 0x01;
+// CONNACK reuses bit 0 to announce a server version byte
+const FLAG_HAS_SERVER_VERSION = 0x01;
+
+// Setting byte bits
+const SETTING_RECEIPT = 1 << 7;
+const SETTING_SIGNAL = 1 << 5;
+const SETTING_TOPIC = 1 << 3;
+const SETTING_STREAM = 1 << 1;
+
+/** Outgoing message in JSON-RPC shape (request when `id` is set, otherwise notification) */
+export interface RpcOutgoing {
+    method: string;
+    params: any;
+    id?: string;
+}
+
+/** Incoming message in JSON-RPC shape: a response (`id`) or a notification (`method`) */
+export type RpcIncoming =
+    | { id: string; result?: any; error?: { code: number; message: string; data?: any } }
+    | { method: string; params: any };
+
+// --- Base64 / UTF-8 helpers (pure JS so they work in every mini program runtime) ---
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP: { [char: string]: number } = {};
+for (let i = 0; i < BASE64_CHARS.length; i++) {
+    BASE64_LOOKUP[BASE64_CHARS[i]] = i;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let out = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+        const b0 = bytes[i];
+        const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+        const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+        out += BASE64_CHARS[b0 >> 2];
+        out += BASE64_CHARS[((b0 & 0x03) << 4) | (b1 >> 4)];
+        out += i + 1 < bytes.length ? BASE64_CHARS[((b1 & 0x0f) << 2) | (b2 >> 6)] : '=';
+        out += i + 2 < bytes.length ? BASE64_CHARS[b2 & 0x3f] : '=';
+    }
+    return out;
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+    const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+    const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+    let length = 0;
+    for (let i = 0; i < clean.length; i += 4) {
+        const c0 = BASE64_LOOKUP[clean[i]];
+        const c1 = BASE64_LOOKUP[clean[i + 1]];
+        const c2 = BASE64_LOOKUP[clean[i + 2]];
+        const c3 = BASE64_LOOKUP[clean[i + 3]];
+        bytes[length++] = (c0 << 2) | (c1 >> 4);
+        if (c2 !== undefined) {
+            bytes[length++] = ((c1 & 0x0f) << 4) | (c2 >> 2);
+        }
+        if (c3 !== undefined) {
+            bytes[length++] = ((c2 & 0x03) << 6) | c3;
+        }
+    }
+    return bytes.subarray(0, length);
+}
+
+function utf8Encode(str: string): Uint8Array {
+    return new TextEncoder().encode(str);
+}
+
+function utf8Decode(bytes: Uint8Array): string {
+    return new TextDecoder().decode(bytes);
+}
+
+// --- 64-bit integer helpers (no BigInt: ES2016 target and older mini program engines) ---
+
+/**
+ * Converts a decimal integer (number or string) into big-endian [high, low] uint32 words,
+ * using two's complement for negative values.
+ */
+function int64ToWords(value: number | string): [number, number] {
+    let digits = String(value).trim();
+    const negative = digits.charAt(0) === '-';
+    if (negative) {
+        digits = digits.slice(1);
+    }
+    // Four 16-bit limbs, least significant first
+    const limbs = [0, 0, 0, 0];
+    for (let i = 0; i < digits.length; i++) {
+        let carry = digits.charCodeAt(i) - 48;
+        if (carry < 0 || carry > 9) {
+            throw new Error(`wkproto: invalid integer "${value}"`);
+        }
+        for (let j = 0; j < 4; j++) {
+            const v = limbs[j] * 10 + carry;
+            limbs[j] = v & 0xffff;
+            carry = v >>> 16;
+        }
+    }
+    if (negative) {
+        let carry = 1;
+        for (let j = 0; j < 4; j++) {
+            const v = (~limbs[j] & 0xffff) + carry;
+            limbs[j] = v & 0xffff;
+            carry = v >>> 16;
+        }
+    }
+    return [((limbs[3] << 16) | limbs[2]) >>> 0, ((limbs[1] << 16) | limbs[0]) >>> 0];
+}
+
+/**
+ * Converts big-endian [high, low] uint32 words into a decimal string.
+ */
+function wordsToInt64String(high: number, low: number, signed: boolean): string {
+    const limbs = [low & 0xffff, low >>> 16, high & 0xffff, high >>> 16];
+    const negative = signed && (high & 0x80000000) !== 0;
+    if (negative) {
+        let carry = 1;
+        for (let j = 0; j < 4; j++) {
+            const v = (~limbs[j] & 0xffff) + carry;
+            limbs[j] = v & 0xffff;
+            carry = v >>> 16;
+        }
+    }
+    let digits = '';
+    while (limbs[0] || limbs[1] || limbs[2] || limbs[3]) {
+        let remainder = 0;
+        for (let j = 3; j >= 0; j--) {
+            const v = remainder * 0x10000 + limbs[j];
+            limbs[j] = Math.floor(v / 10);
+            remainder = v % 10;
+        }
+        digits = remainder + digits;
+    }
+    return (negative ? '-' : '') + (digits || '0');
+}
+
+// --- Encoder / Decoder ---
+
+class Encoder {
+    private bytes: number[] = [];
+
+    writeUint8(value: number): void {
+        this.bytes.push(value & 0xff);
+    }
+
+    writeUint16(value: number): void {
+        this.bytes.push((value >>> 8) & 0xff, value & 0xff);
+    }
+
+    writeUint32(value: number): void {
+        this.bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+    }
+
+    writeInt64(value: number | string): void {
+        const [high, low] = int64ToWords(value);
+        this.writeUint32(high);
+        this.writeUint32(low);
+    }
+
+    writeString(value: string | undefined | null): void {
+        const bytes = utf8Encode(value || '');
+        this.writeUint16(bytes.length);
+        this.writeBytes(bytes);
+    }
+
+    writeBytes(bytes: Uint8Array): void {
+        for (let i = 0; i < bytes.length; i++) {
+            this.bytes.push(bytes[i]);
+        }
+    }
+
+    toBytes(): Uint8Array {
+        return new Uint8Array(this.bytes);
+    }
+}
+
+class Decoder {
+    private offset = 0;
+
+    constructor(private readonly bytes: Uint8Array) {}
+
+    private need(length: number): void {
+        if (this.offset + length > this.bytes.length) {
+            throw new Error('wkproto: unexpected end of packet');
+        }
+    }
+
+    readUint8(): number {
+        this.need(1);
+        return this.bytes[this.offset++];
+    }
+
+    readUint16(): number {
+        this.need(2);
+        const value = (this.bytes[this.offset] << 8) | this.bytes[this.offset + 1];
+        this.offset += 2;
+        return value;
+    }
+
+    readUint32(): number {
+        this.need(4);
+        const b = this.bytes;
+        const o = this.offset;
+        this.offset += 4;
+        return ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0;
+    }
+
+    readInt32(): number {
+        return this.readUint32() | 0;
+    }
+
+    readInt64String(signed = true): string {
+        const high = this.readUint32();
+        const low = this.readUint32();
+        return wordsToInt64String(high, low, signed);
+    }
+
+    readInt64Number(signed = true): number {
+        return Number(this.readInt64String(signed));
+    }
+
+    readString(): string {
+        const length = this.readUint16();
+        this.need(length);
+        const value = utf8Decode(this.bytes.subarray(this.offset, this.offset + length));
+        this.offset += length;
+        return value;
+    }
+
+    readRemaining(): Uint8Array {
+        const rest = this.bytes.subarray(this.offset);
+        this.offset = this.bytes.length;
+        return rest;
+    }
+}
+
+// --- Field mappings ---
+
+function encodeHeaderFlags(header: any): number {
+    if (!header) {
+        return 0;
+    }
+    return (header.dup ? FLAG_DUP : 0)
+        | (header.syncOnce ? FLAG_SYNC_ONCE : 0)
+        | (header.redDot ? FLAG_RED_DOT : 0)
+        | (header.noPersist ? FLAG_NO_PERSIST : 0);
+}
+
+function decodeHeaderFlags(fixedHeader: number): { dup: boolean; syncOnce: boolean; redDot: boolean; noPersist: boolean } {
+    return {
+        dup: (fixedHeader & FLAG_DUP) !== 0,
+        syncOnce: (fixedHeader & FLAG_SYNC_ONCE) !== 0,
+        redDot: (fixedHeader & FLAG_RED_DOT) !== 0,
+        noPersist: (fixedHeader & FLAG_NO_PERSIST) !== 0,
+    };
+}
+
+function encodeSetting(setting: any): number {
+    if (!setting) {
+        return 0;
+    }
+    return (setting.receipt ? SETTING_RECEIPT : 0)
+        | (setting.signal ? SETTING_SIGNAL : 0)
+        | (setting.topic ? SETTING_TOPIC : 0)
+        | (setting.stream ? SETTING_STREAM : 0);
+}
+
+function decodeSetting(value: number): { receipt: boolean; signal: boolean; topic: boolean; stream: boolean } {
+    return {
+        receipt: (value & SETTING_RECEIPT) !== 0,
+        signal: (value & SETTING_SIGNAL) !== 0,
+        topic: (value & SETTING_TOPIC) !== 0,
+        stream: (value & SETTING_STREAM) !== 0,
+    };
+}
+
+/** Payloads cross the codec boundary as base64, the same representation JSON-RPC uses. */
+function payloadToBytes(payload: any): Uint8Array {
+    if (payload instanceof Uint8Array) {
+        return payload;
+    }
+    if (typeof payload === 'string') {
+        return base64ToBytes(payload);
+    }
+    return utf8Encode(JSON.stringify(payload ?? {}));
+}
+
+// --- Codec ---
+
+/**
+ * Encodes SDK requests/notifications into wkproto frames and decodes incoming frames
+ * back into JSON-RPC shaped responses/notifications.
+ *
+ * wkproto has no request IDs, so the codec correlates acks itself:
+ * CONNACK with the pending connect, SENDACK by clientSeq, SUBACK by subNo, PONG in FIFO order.
+ */
+export class WKProtoCodec {
+    private version: number = WKPROTO_VERSION;
+    private connectId: string | null = null;
+    private clientSeq: number = 0;
+    private sendIds: Map<number, string> = new Map();
+    private subscribeIds: Map<string, string> = new Map();
+    private pingIds: string[] = [];
+    private pendingBytes: Uint8Array | null = null;
+
+    /** Negotiated protocol version (updated from CONNACK) */
+    get protocolVersion(): number {
+        return this.version;
+    }
+
+    /**
+     * Clears all correlation state. Call whenever a new socket is opened.
+     */
+    reset(): void {
+        this.version = WKPROTO_VERSION;
+        this.connectId = null;
+        this.clientSeq = 0;
+        this.sendIds.clear();
+        this.subscribeIds.clear();
+        this.pingIds = [];
+        this.pendingBytes = null;
+    }
+
+    encode(message: RpcOutgoing): ArrayBuffer {
+        const bytes = this.encodeFrame(message);
+        return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    }
+
+    /**
+     * Encodes several messages into a single buffer. Frames are self-delimiting,
+     * so the server reads them exactly as if they had arrived one by one.
+     */
+    encodeBatch(messages: RpcOutgoing[]): ArrayBuffer[] {
+        const frames = messages.map(message => this.encodeFrame(message));
+        const joined = new Uint8Array(frames.reduce((total, frame) => total + frame.length, 0));
+        let offset = 0;
+        frames.forEach(frame => {
+            joined.set(frame, offset);
+            offset += frame.length;
+        });
+        return [joined.buffer];
+    }
+
+    /**
+     * Decodes one WebSocket message, which may carry several frames.
+     * An incomplete trailing frame is buffered until the next call.
+     */
+    decode(data: ArrayBuffer | Uint8Array | string): RpcIncoming[] {
+        if (typeof data === 'string') {
+            throw new Error('wkproto: expected a binary frame but received text');
+        }
+        let bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+        if (this.pendingBytes) {
+            const joined = new Uint8Array(this.pendingBytes.length + bytes.length);
+            joined.set(this.pendingBytes, 0);
+            joined.set(bytes, this.pendingBytes.length);
+            bytes = joined;
+            this.pendingBytes = null;
+        }
+
+        const messages: RpcIncoming[] = [];
+        let offset = 0;
+        while (offset < bytes.length) {
+            const fixedHeader = bytes[offset];
+            const packetType = fixedHeader >> 4;
+            if (packetType === PacketType.PING || packetType === PacketType.PONG) {
+                offset += 1;
+                const message = this.decodePacket(packetType, fixedHeader, new Uint8Array(0));
+                if (message) {
+                    messages.push(message);
+                }
+                continue;
+            }
+
+            let length = 0;
+            let multiplier = 1;
+            let position = offset + 1;
+            let digit: number;
+            do {
+                if (position >= bytes.length) {
+                    this.pendingBytes = bytes.slice(offset);
+                    return messages;
+                }
+                digit = bytes[position++];
+                length += (digit & 0x7f) * multiplier;
+                multiplier *= 128;
+            } while ((digit & 0x80) !== 0);
+
+            if (position + length > bytes.length) {
+                this.pendingBytes = bytes.slice(offset);
+                return messages;
+            }
+            const body = bytes.subarray(position, position + length);
+            offset = position + length;
+
+            const message = this.decodePacket(packetType, fixedHeader, body);
+            if (message) {
+                messages.push(message);
+            }
+        }
+        return messages;
+    }
+
+    // --- Encoding ---
+
+    private encodeFrame(message: RpcOutgoing): Uint8Array {
+        const params = message.params || {};
+        switch (message.method) {
+            case 'connect':
+                this.connectId = message.id ?? null;
+                return this.packet(PacketType.CONNECT, encodeHeaderFlags(params.header), enc => {
+                    enc.writeUint8(params.version ?? WKPROTO_VERSION);
+                    enc.writeUint8(params.deviceFlag ?? 0);
+                    enc.writeString(params.deviceId);
+                    enc.writeString(params.uid);
+                    enc.writeString(params.token);
+                    enc.writeInt64(params.clientTimestamp ?? Date.now());
+                    enc.writeString(params.clientKey);
+                });
+            case 'send': {
+                // Secure mode assigns clientSeq up front because it is part of the msgKey sign string
+                const clientSeq = params.clientSeq ?? ++this.clientSeq;
+                if (message.id) {
+                    this.sendIds.set(clientSeq, message.id);
+                }
+                const setting = encodeSetting(params.setting);
+                return this.packet(PacketType.SEND, encodeHeaderFlags(params.header), enc => {
+                    enc.writeUint8(setting);
+                    enc.writeUint32(clientSeq);
+                    enc.writeString(params.clientMsgNo);
+                    if (setting & SETTING_STREAM) {
+                        enc.writeString(params.streamNo); // SendPacket has no stream flag, unlike RECV
+                    }
+                    enc.writeString(params.channelId);
+                    enc.writeUint8(params.channelType);
+                    if (this.version >= 3) {
+                        enc.writeUint32(params.expire || 0);
+                    }
+                    enc.writeString(params.msgKey);
+                    if (setting & SETTING_TOPIC) {
+                        enc.writeString(params.topic);
+                    }
+                    enc.writeBytes(payloadToBytes(params.payload));
+                });
+            }
+            case 'recvack':
+                return this.packet(PacketType.RECVACK, encodeHeaderFlags(params.header), enc => {
+                    enc.writeInt64(params.messageId);
+                    enc.writeUint32(params.messageSeq);
+                });
+            case 'ping':
+                if (message.id) {
+                    this.pingIds.push(message.id);
+                }
+                return new Uint8Array([PacketType.PING << 4]);
+            case 'subscribe':
+            case 'unsubscribe':
+                if (message.id) {
+                    this.subscribeIds.set(params.subNo, message.id);
+                }
+                return this.packet(PacketType.SUB, encodeHeaderFlags(params.header), enc => {
+                    enc.writeUint8(encodeSetting(params.setting));
+                    enc.writeString(params.subNo);
+                    enc.writeString(params.channelId);
+                    enc.writeUint8(params.channelType);
+                    enc.writeUint8(message.method === 'subscribe' ? 0 : 1);
+                    enc.writeString(params.param);
+                });
+            case 'disconnect':
+                return this.packet(PacketType.DISCONNECT, encodeHeaderFlags(params.header), enc => {
+                    enc.writeUint8(params.reasonCode ?? 0);
+                    enc.writeString(params.reason);
+                });
+            default:
+                throw new Error(`wkproto: unsupported method "${message.method}"`);
+        }
+    }
+
+    private packet(packetType: PacketType, flags: number, writeBody: (enc: Encoder) => void): Uint8Array {
+        const body = new Encoder();
+        writeBody(body);
+        const bodyBytes = body.toBytes();
+
+        const frame = new Encoder();
+        frame.writeUint8((packetType << 4) | (flags & 0x0f));
+        let length = bodyBytes.length;
+        do {
+            let digit = length % 128;
+            length = Math.floor(length / 128);
+            if (length > 0) {
+                digit |= 0x80;
+            }
+            frame.writeUint8(digit);
+        } while (length > 0);
+        frame.writeBytes(bodyBytes);
+        return frame.toBytes();
+    }
+
+    // --- Decoding ---
+
+    private decodePacket(packetType: number, fixedHeader: number, body: Uint8Array): RpcIncoming | null {
+        const dec = new Decoder(body);
+        switch (packetType) {
+            case PacketType.CONNACK: {
+                let serverVersion = 0;
+                if (fixedHeader & FLAG_HAS_SERVER_VERSION) {
+                    serverVersion = dec.readUint8();
+                    if (serverVersion > 0) {
+                        this.version = Math.min(WKPROTO_VERSION, serverVersion);
+                    }
+                }
+                const timeDiff = dec.readInt64Number();
+                const reasonCode = dec.readUint8();
+                const serverKey = dec.readString();
+                const salt = dec.readString();
+                const nodeId = serverVersion >= 4 ? dec.readInt64Number(false) : undefined;
+
+                const id = this.connectId;
+                this.connectId = null;
+                if (!id) {
+                    return null;
+                }
+                if (reasonCode !== 1) {
+                    return { id, error: { code: reasonCode, message: `Connect failed (reasonCode: ${reasonCode})` } };
+                }
+                const result: any = { serverKey, salt, timeDiff, reasonCode };
+                if (serverVersion) {
+                    result.serverVersion = serverVersion;
+                }
+                if (nodeId !== undefined) {
+                    result.nodeId = nodeId;
+                }
+                return { id, result };
+            }
+            case PacketType.SENDACK: {
+                const messageId = dec.readInt64String();
+                const clientSeq = dec.readUint32();
+                dec.readString(); // clientMsgNo (already known to the caller)
+                const messageSeq = dec.readUint32();
+                const reasonCode = dec.readUint8();
+                const id = this.sendIds.get(clientSeq);
+                if (!id) {
+                    return null;
+                }
+                this.sendIds.delete(clientSeq);
+                return { id, result: { messageId, messageSeq, reasonCode } };
+            }
+            case PacketType.RECV: {
+                const setting = dec.readUint8();
+                const params: any = { header: decodeHeaderFlags(fixedHeader), setting: decodeSetting(setting) };
+                params.msgKey = dec.readString();
+                params.fromUid = dec.readString();
+                params.channelId = dec.readString();
+                params.channelType = dec.readUint8();
+                if (this.version >= 3) {
+                    params.expire = dec.readUint32();
+                }
+                params.clientMsgNo = dec.readString();
+                if (this.version >= 2 && (setting & SETTING_STREAM)) {
+                    params.streamNo = dec.readString();
+                    params.streamId = dec.readInt64String(false);
+                    params.streamFlag = dec.readUint8();
+                }
+                params.messageId = dec.readInt64String();
+                params.messageSeq = dec.readUint32();
+                params.timestamp = dec.readInt32();
+                if (setting & SETTING_TOPIC) {
+                    params.topic = dec.readString();
+                }
+                params.payload = bytesToBase64(dec.readRemaining());
+                return { method: 'recv', params };
+            }
+            case PacketType.PONG: {
+                const id = this.pingIds.shift();
+                return id ? { id, result: null } : { method: 'pong', params: null };
+            }
+            case PacketType.DISCONNECT: {
+                const reasonCode = dec.readUint8();
+                const reason = dec.readString();
+                return { method: 'disconnect', params: { reasonCode, reason } };
+            }
+            case PacketType.SUBACK: {
+                const subNo = dec.readString();
+                const channelId = dec.readString();
+                const channelType = dec.readUint8();
+                const action = dec.readUint8();
+                const reasonCode = dec.readUint8();
+                const id = this.subscribeIds.get(subNo);
+                if (!id) {
+                    return null;
+                }
+                this.subscribeIds.delete(subNo);
+                return { id, result: { subNo, channelId, channelType, action, reasonCode } };
+            }
+            case PacketType.EVENT: {
+                const eventId = dec.readString();
+                const type = dec.readString();
+                const timestamp = dec.readInt64Number();
+                const data = utf8Decode(dec.readRemaining());
+                return { method: 'event', params: { header: decodeHeaderFlags(fixedHeader), id: eventId, type, timestamp, data } };
+            }
+            default:
+                return null;
+        }
+    }
+}